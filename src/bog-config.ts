@@ -1,15 +1,105 @@
+import {
+  CONFIG_SCHEMA_URL,
+  CONFIG_VERSION,
+  DARK_MODES,
+  FONT_LOADERS,
+  THEME_COLOR_ROLES,
+} from "./config.js";
+import { Framework } from "./design-system/frameworks.js";
+
+export interface UtilsConfig {
+  // Directory relative to the project root
+  path: string;
+  // Import alias that resolves to the directory (e.g. "@/utils/design-system")
+  alias?: string;
+  // Design system version the utilities were downloaded from
+  version?: string;
+  // Design system ref the utilities were downloaded from
+  ref?: string;
+  // sha256 hash of each file as it was installed, keyed by path relative to
+  // the directory
+  files?: {
+    [filePath: string]: string;
+  };
+}
+
+export interface StylesConfig {
+  // Theme stylesheet, relative to the project root
+  path: string;
+  // Framework detected when the stylesheet was imported
+  framework?: Framework;
+  // File the stylesheet is imported into, relative to the project root
+  entry?: string;
+  // sha256 hash of the stylesheet as it was last generated, to detect local changes
+  hash?: string;
+}
+
+export type ThemeColorRole = (typeof THEME_COLOR_ROLES)[number];
+
+export type DarkMode = (typeof DARK_MODES)[number];
+
+export interface ThemeConfig {
+  // Base color of each role, as #rrggbb
+  colors: Record<ThemeColorRole, string>;
+  // Palette shades set explicitly (e.g. imported from design tokens) instead
+  // of derived from the base color, keyed by role, then by shade (e.g. "100")
+  palettes?: Partial<Record<ThemeColorRole, Record<string, string>>>;
+  // How the generated dark palette is switched on; no dark palette if unset
+  dark?: DarkMode;
+}
+
+export type FontLoader = (typeof FONT_LOADERS)[number];
+
+export interface FontsConfig {
+  // Directory the font files are in, relative to the project root
+  path: string;
+  // How the fonts are loaded: @font-face rules in the theme stylesheet, or a
+  // next/font/local module
+  loader: FontLoader;
+  // URL the font directory is served from, used by the @font-face rules
+  url?: string;
+  // The next/font/local module, relative to the project root
+  module?: string;
+}
+
 export interface BogConfig {
+  // JSON Schema editors use to validate and autocomplete bog.json
+  $schema?: string;
+  // Format version, used to migrate older files
+  version: number;
   "design-system": {
     path: string;
+    // The design system ref (branch, tag or commit SHA) to download from
+    ref?: string;
+    // Where design system files are downloaded from (github:<owner>/<name>, an HTTP URL or a directory)
+    registry?: string;
+    // Where the design system utilities are installed
+    utils?: UtilsConfig;
+    // Where the theme stylesheet is and which file imports it
+    styles?: StylesConfig;
+    // Theme colors the stylesheet is generated from
+    theme?: ThemeConfig;
+    // Where the fonts were downloaded and how they are loaded
+    fonts?: FontsConfig;
     components: {
       [componentName: string]: {
         version: string;
+        // Design system ref the component was downloaded from
+        ref?: string;
+        // sha256 hash of each file as it was installed, keyed by file name
+        files?: {
+          [fileName: string]: string;
+        };
+        // True if the component was only installed because another component depends on it
+        installedAsDependency?: boolean;
       };
     };
   };
 }
 
 export const DEFAULT_CONFIG: BogConfig = {
+  $schema: CONFIG_SCHEMA_URL,
+  version: CONFIG_VERSION,
   "design-system": {
     path: "src/components",
     components: {},
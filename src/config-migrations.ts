@@ -0,0 +1,66 @@
+import { CONFIG_SCHEMA_URL, CONFIG_VERSION } from "./config.js";
+
+/**
+ * Upgrades a bog.json from the previous format version to `version`
+ */
+interface ConfigMigration {
+  version: number;
+  description: string;
+  migrate: (config: Record<string, any>) => Record<string, any>;
+}
+
+// Every format change, in order. Add a migration (and bump CONFIG_VERSION)
+// whenever the shape of bog.json changes.
+const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 1,
+    description: "Add the $schema and version fields",
+    migrate: ({ version, ...config }) => ({
+      $schema: CONFIG_SCHEMA_URL,
+      version: 1,
+      ...config,
+    }),
+  },
+];
+
+/**
+ * Gets the format version of a parsed bog.json
+ * Files written before versioning have no version field and are version 0
+ */
+export function getConfigVersion(config: Record<string, any>): number {
+  return typeof config.version === "number" ? config.version : 0;
+}
+
+/**
+ * Upgrades a parsed bog.json to the current format version
+ * Throws if the file was written by a newer version of the CLI
+ * @returns The upgraded config and the migrations that were applied
+ */
+export function migrateBogConfig(config: Record<string, any>): {
+  config: Record<string, any>;
+  applied: string[];
+} {
+  if (config.version !== undefined && typeof config.version !== "number") {
+    // Leave an invalid version for validation to report
+    return { config, applied: [] };
+  }
+
+  const version = getConfigVersion(config);
+  if (version > CONFIG_VERSION) {
+    throw new Error(
+      `bog.json has version ${version}, but this CLI only supports up to version ${CONFIG_VERSION}. Please update bog-cli.`
+    );
+  }
+
+  const applied: string[] = [];
+  let migrated = config;
+  for (const migration of CONFIG_MIGRATIONS) {
+    if (migration.version <= version) continue;
+
+    migrated = migration.migrate(migrated);
+    migrated.version = migration.version;
+    applied.push(`v${migration.version}: ${migration.description}`);
+  }
+
+  return { config: migrated, applied };
+}
@@ -1,11 +1,18 @@
-import { existsSync, readFileSync, writeFileSync } from "fs";
+import { existsSync, readFileSync } from "fs";
 import path from "path";
 import { BogConfig, DEFAULT_CONFIG } from "./bog-config.js";
-import { BASE_URL, CONFIG_FILE_NAME } from "./config.js";
-import { logError, logInfo } from "./utils.js";
+import { CONFIG_FILE_NAME, DEFAULT_REF } from "./config.js";
+import { createRegistry, Registry } from "./registry.js";
+import { logError, logInfo, logNotice, logColored } from "./utils.js";
+import { migrateBogConfig } from "./config-migrations.js";
+import { validateBogConfig } from "./config-validation.js";
 
 /**
  * Reads the bog.json config file from the project root
+ * Older files are migrated to the current format in memory only. The migrated
+ * config is saved whenever the command writes bog.json, so commands that only
+ * read it (and dry runs) leave the file untouched
+ * Returns null (after logging every invalid field) if the file is invalid
  */
 export function readBogConfig(root: string): BogConfig | null {
   const configPath = path.join(root, CONFIG_FILE_NAME);
@@ -14,68 +21,119 @@ export function readBogConfig(root: string): BogConfig | null {
     return null;
   }
 
+  let config: unknown;
+  let applied: string[] = [];
   try {
-    const configContent = readFileSync(configPath, "utf8");
-    return JSON.parse(configContent) as BogConfig;
-  } catch (error) {
-    logError(`Failed to read ${CONFIG_FILE_NAME}: ${error}`);
+    config = JSON.parse(readFileSync(configPath, "utf8"));
+    if (
+      typeof config === "object" &&
+      config !== null &&
+      !Array.isArray(config)
+    ) {
+      ({ config, applied } = migrateBogConfig(config));
+    }
+  } catch (error: any) {
+    logError(`Failed to read ${CONFIG_FILE_NAME}: ${error.message ?? error}`);
     return null;
   }
-}
 
-/**
- * Writes the bog.json config file to the project root
- */
-export function writeBogConfig(root: string, config: BogConfig): boolean {
-  const configPath = path.join(root, CONFIG_FILE_NAME);
+  const errors = validateBogConfig(config);
+  if (errors.length > 0) {
+    logError(`${CONFIG_FILE_NAME} is invalid:`);
+    errors.forEach((error) => logColored(`  - ${error}`, "RED"));
+    return null;
+  }
 
-  try {
-    writeFileSync(configPath, JSON.stringify(config, null, 2), "utf8");
-    return true;
-  } catch (error) {
-    logError(`Failed to write ${CONFIG_FILE_NAME}: ${error}`);
-    return false;
+  const valid = config as BogConfig;
+  if (applied.length > 0) {
+    logNotice(
+      `Read ${CONFIG_FILE_NAME} as version ${valid.version}. It will be saved in this format the next time it is updated:`
+    );
+    applied.forEach((migration) => logNotice(`  - ${migration}`));
   }
+
+  return valid;
 }
 
 /**
- * Creates a new bog.json config file with default values
- * Returns true if created successfully, false if already exists or creation failed
+ * Formats a config the way it is stored in bog.json
  */
-export function createBogConfig(
-  root: string,
-  componentPath: string = "src/components"
-): boolean {
-  const configPath = path.join(root, CONFIG_FILE_NAME);
-
-  // Check if config file already exists
-  if (existsSync(configPath)) {
-    return false; // Already exists, don't overwrite
-  }
+export function serializeBogConfig(config: BogConfig): string {
+  return JSON.stringify(config, null, 2);
+}
 
-  const config: BogConfig = {
+/**
+ * Builds the config of a newly initialized project
+ */
+export function newBogConfig(
+  componentPath: string = "src/components",
+  ref: string = DEFAULT_REF,
+  registry?: string
+): BogConfig {
+  return {
     ...DEFAULT_CONFIG,
     "design-system": {
       ...DEFAULT_CONFIG["design-system"],
       path: componentPath,
+      ref,
+      registry,
     },
   };
+}
 
-  return writeBogConfig(root, config);
+/**
+ * Gets the design system ref a project is pinned to
+ */
+export function getDesignSystemRef(config: BogConfig | null): string {
+  return config?.["design-system"].ref ?? DEFAULT_REF;
 }
 
 /**
- * Gets the current version of the design system from the repository
+ * Pins a project to a design system ref
+ * Returns true if the pinned ref changed
  */
-export async function getDesignSystemVersion(): Promise<string> {
-  try {
-    const response = await fetch(`${BASE_URL}/main/package.json`);
+export function pinDesignSystemRef(
+  config: BogConfig,
+  ref: string | undefined
+): boolean {
+  if (!ref || ref === config["design-system"].ref) {
+    return false;
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch package.json: ${response.status}`);
-    }
+  logInfo(
+    `Pinning design system ref: ${getDesignSystemRef(config)} → ${ref}`
+  );
+  config["design-system"].ref = ref;
+  return true;
+}
+
+/**
+ * Gets the registry a project downloads design system files from
+ * A registry passed with --registry takes precedence over the one in bog.json,
+ * and relative directories in it are resolved against the current directory
+ */
+export function getRegistry(
+  root: string,
+  config: BogConfig | null,
+  override?: string
+): Registry {
+  if (override) {
+    return createRegistry(override, process.cwd());
+  }
+  return createRegistry(config?.["design-system"].registry, root);
+}
 
-    const packageJson = (await response.json()) as { version: string };
+/**
+ * Gets the version of the design system at a ref of the registry
+ */
+export async function getDesignSystemVersion(
+  registry: Registry,
+  ref: string = DEFAULT_REF
+): Promise<string> {
+  try {
+    const packageJson = JSON.parse(
+      await registry.readText("package.json", ref)
+    ) as { version: string };
     return packageJson.version;
   } catch (error) {
     logError(`Failed to fetch design system version: ${error}`);
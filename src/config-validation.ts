@@ -0,0 +1,345 @@
+import { BogConfig } from "./bog-config.js";
+import { FRAMEWORK_NAMES } from "./design-system/frameworks.js";
+import { DARK_MODES, FONT_LOADERS, THEME_COLOR_ROLES } from "./config.js";
+import { isObject } from "./utils.js";
+
+type JsonType = "string" | "number" | "boolean" | "object";
+
+/**
+ * Describes the JSON type of a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return `a ${typeof value}`;
+}
+
+/**
+ * Checks the type of a field, recording an error for a wrong or missing value
+ * @returns True if the field has the expected type
+ */
+function checkField(
+  errors: string[],
+  parent: Record<string, unknown>,
+  key: string,
+  fieldPath: string,
+  type: JsonType,
+  required: boolean
+): boolean {
+  const value = parent[key];
+
+  if (value === undefined) {
+    if (required) {
+      errors.push(`${fieldPath} is required`);
+    }
+    return false;
+  }
+
+  const matches = type === "object" ? isObject(value) : typeof value === type;
+  if (!matches) {
+    errors.push(`${fieldPath} must be a ${type}, got ${describe(value)}`);
+  }
+  return matches;
+}
+
+/**
+ * Checks a parsed bog.json against the BogConfig shape
+ * Unknown fields are allowed so newer files still load
+ * @returns A message for every invalid field, empty if the config is valid
+ */
+export function validateBogConfig(value: unknown): string[] {
+  if (!isObject(value)) {
+    return [`bog.json must contain an object, got ${describe(value)}`];
+  }
+
+  const errors: string[] = [];
+  checkField(errors, value, "$schema", "$schema", "string", false);
+  if (
+    checkField(errors, value, "version", "version", "number", true) &&
+    !Number.isInteger(value.version)
+  ) {
+    errors.push("version must be an integer");
+  }
+
+  if (
+    !checkField(errors, value, "design-system", "design-system", "object", true)
+  ) {
+    return errors;
+  }
+
+  const designSystem = value["design-system"] as Record<string, unknown>;
+  checkField(errors, designSystem, "path", "design-system.path", "string", true);
+  checkField(errors, designSystem, "ref", "design-system.ref", "string", false);
+  checkField(
+    errors,
+    designSystem,
+    "registry",
+    "design-system.registry",
+    "string",
+    false
+  );
+
+  if (
+    checkField(errors, designSystem, "utils", "design-system.utils", "object", false)
+  ) {
+    const utils = designSystem.utils as Record<string, unknown>;
+    checkField(errors, utils, "path", "design-system.utils.path", "string", true);
+    checkField(
+      errors,
+      utils,
+      "alias",
+      "design-system.utils.alias",
+      "string",
+      false
+    );
+    checkField(
+      errors,
+      utils,
+      "version",
+      "design-system.utils.version",
+      "string",
+      false
+    );
+    checkField(
+      errors,
+      utils,
+      "ref",
+      "design-system.utils.ref",
+      "string",
+      false
+    );
+    if (
+      checkField(
+        errors,
+        utils,
+        "files",
+        "design-system.utils.files",
+        "object",
+        false
+      )
+    ) {
+      const files = utils.files as Record<string, unknown>;
+      for (const [filePath, hash] of Object.entries(files)) {
+        if (typeof hash !== "string") {
+          errors.push(
+            `design-system.utils.files.${filePath} must be a string, got ${describe(hash)}`
+          );
+        }
+      }
+    }
+  }
+
+  if (
+    checkField(
+      errors,
+      designSystem,
+      "styles",
+      "design-system.styles",
+      "object",
+      false
+    )
+  ) {
+    const styles = designSystem.styles as Record<string, unknown>;
+    checkField(errors, styles, "path", "design-system.styles.path", "string", true);
+    if (
+      checkField(
+        errors,
+        styles,
+        "framework",
+        "design-system.styles.framework",
+        "string",
+        false
+      ) &&
+      !((styles.framework as string) in FRAMEWORK_NAMES)
+    ) {
+      errors.push(
+        `design-system.styles.framework must be one of ${Object.keys(
+          FRAMEWORK_NAMES
+        ).join(", ")}`
+      );
+    }
+    checkField(
+      errors,
+      styles,
+      "entry",
+      "design-system.styles.entry",
+      "string",
+      false
+    );
+    checkField(errors, styles, "hash", "design-system.styles.hash", "string", false);
+  }
+
+  if (
+    checkField(errors, designSystem, "theme", "design-system.theme", "object", false)
+  ) {
+    const theme = designSystem.theme as Record<string, unknown>;
+    if (
+      checkField(
+        errors,
+        theme,
+        "colors",
+        "design-system.theme.colors",
+        "object",
+        true
+      )
+    ) {
+      const colors = theme.colors as Record<string, unknown>;
+      for (const role of THEME_COLOR_ROLES) {
+        const fieldPath = `design-system.theme.colors.${role}`;
+        if (
+          checkField(errors, colors, role, fieldPath, "string", true) &&
+          !/^#[0-9a-fA-F]{6}$/.test(colors[role] as string)
+        ) {
+          errors.push(`${fieldPath} must be a hex color like #fc5b43`);
+        }
+      }
+    }
+
+    if (
+      checkField(errors, theme, "dark", "design-system.theme.dark", "string", false) &&
+      !(DARK_MODES as readonly string[]).includes(theme.dark as string)
+    ) {
+      errors.push(
+        `design-system.theme.dark must be one of ${DARK_MODES.join(", ")}`
+      );
+    }
+
+    if (
+      checkField(
+        errors,
+        theme,
+        "palettes",
+        "design-system.theme.palettes",
+        "object",
+        false
+      )
+    ) {
+      const palettes = theme.palettes as Record<string, unknown>;
+      for (const [role, palette] of Object.entries(palettes)) {
+        const palettePath = `design-system.theme.palettes.${role}`;
+        if (!(THEME_COLOR_ROLES as readonly string[]).includes(role)) {
+          errors.push(
+            `${palettePath} is not a color role (${THEME_COLOR_ROLES.join(", ")})`
+          );
+        } else if (!isObject(palette)) {
+          errors.push(`${palettePath} must be an object, got ${describe(palette)}`);
+        } else {
+          for (const [shade, color] of Object.entries(palette)) {
+            if (!/^\d{2,3}$/.test(shade)) {
+              errors.push(`${palettePath}.${shade} is not a shade like 100`);
+            } else if (
+              typeof color !== "string" ||
+              !/^#[0-9a-fA-F]{6}$/.test(color)
+            ) {
+              errors.push(
+                `${palettePath}.${shade} must be a hex color like #fc5b43`
+              );
+            }
+          }
+        }
+      }
+    }
+  }
+
+  if (
+    checkField(errors, designSystem, "fonts", "design-system.fonts", "object", false)
+  ) {
+    const fonts = designSystem.fonts as Record<string, unknown>;
+    checkField(errors, fonts, "path", "design-system.fonts.path", "string", true);
+    if (
+      checkField(errors, fonts, "loader", "design-system.fonts.loader", "string", true) &&
+      !(FONT_LOADERS as readonly string[]).includes(fonts.loader as string)
+    ) {
+      errors.push(
+        `design-system.fonts.loader must be one of ${FONT_LOADERS.join(", ")}`
+      );
+    }
+    checkField(errors, fonts, "url", "design-system.fonts.url", "string", false);
+    checkField(
+      errors,
+      fonts,
+      "module",
+      "design-system.fonts.module",
+      "string",
+      false
+    );
+  }
+
+  if (
+    !checkField(
+      errors,
+      designSystem,
+      "components",
+      "design-system.components",
+      "object",
+      true
+    )
+  ) {
+    return errors;
+  }
+
+  const components = designSystem.components as Record<string, unknown>;
+  for (const [name, component] of Object.entries(components)) {
+    const componentPath = `design-system.components.${name}`;
+    if (!isObject(component)) {
+      errors.push(
+        `${componentPath} must be an object, got ${describe(component)}`
+      );
+      continue;
+    }
+
+    checkField(
+      errors,
+      component,
+      "version",
+      `${componentPath}.version`,
+      "string",
+      true
+    );
+    checkField(
+      errors,
+      component,
+      "ref",
+      `${componentPath}.ref`,
+      "string",
+      false
+    );
+    checkField(
+      errors,
+      component,
+      "installedAsDependency",
+      `${componentPath}.installedAsDependency`,
+      "boolean",
+      false
+    );
+
+    if (
+      checkField(
+        errors,
+        component,
+        "files",
+        `${componentPath}.files`,
+        "object",
+        false
+      )
+    ) {
+      const files = component.files as Record<string, unknown>;
+      for (const [fileName, hash] of Object.entries(files)) {
+        if (typeof hash !== "string") {
+          errors.push(
+            `${componentPath}.files.${fileName} must be a string, got ${describe(hash)}`
+          );
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Type guard for a valid BogConfig
+ */
+export function isBogConfig(value: unknown): value is BogConfig {
+  return validateBogConfig(value).length === 0;
+}
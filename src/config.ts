@@ -8,12 +8,27 @@ export const DEPENDENCIES = [
   "radix-ui",
   "react-use"
 ];
-export const FONTS = [
-  "visbyextrabold-webfont.woff2",
-  "visbyextrabold-webfont.woff",
-  "opensans-regular-webfont.woff2",
-  "opensans-regular-webfont.woff",
+// Font families of the design system and their files in public/fonts, in
+// order of preference
+export const FONT_FACES = [
+  {
+    family: "Visby CF",
+    variable: "--font-visby",
+    weight: 800,
+    files: ["visbyextrabold-webfont.woff2", "visbyextrabold-webfont.woff"],
+  },
+  {
+    family: "Open Sans",
+    variable: "--font-open-sans",
+    weight: 400,
+    files: ["opensans-regular-webfont.woff2", "opensans-regular-webfont.woff"],
+  },
 ];
+export const FONTS = FONT_FACES.flatMap((face) => face.files);
+// How the fonts are loaded: @font-face rules in the theme stylesheet, or a
+// next/font/local module for Next.js projects
+export const FONT_LOADERS = ["css", "next-font"] as const;
+// Offline fallback for registries without a component manifest
 export const COMPONENTS = [
   "checkbox",
   "radio-group",
@@ -36,11 +51,69 @@ export const COMPONENTS = [
   "toast",
   "tooltip"
 ];
-export const BASE_URL =
-  "https://raw.githubusercontent.com/GTBitsOfGood/design-system";
+// Offline fallback for the components each component is built from
+export const COMPONENT_DEPENDENCIES: Record<string, string[]> = {
+  "radio-group": ["radio-item"],
+  form: ["text-input"],
+};
+export const GITHUB_RAW_URL = "https://raw.githubusercontent.com";
+export const GITHUB_API_URL = "https://api.github.com/repos";
 
-export const API_BASE_URL =
-  "https://api.github.com/repos/GTBitsOfGood/design-system/contents";
+// The registry design system files are downloaded from when a project does not choose one
+export const DEFAULT_REGISTRY = "github:GTBitsOfGood/design-system";
+
+// The design system ref (branch, tag or commit SHA) used when a project does not pin one
+export const DEFAULT_REF = "production";
+
+// Path of the component manifest in the design system repository
+export const COMPONENT_MANIFEST_PATH = "registry.json";
 
 // Configuration constants
 export const CONFIG_FILE_NAME = "bog.json";
+
+// The current bog.json format version (bumped whenever a migration is added)
+export const CONFIG_VERSION = 1;
+
+// JSON Schema for bog.json, published with the package
+export const CONFIG_SCHEMA_URL =
+  "https://unpkg.com/bog-cli/schema/bog.schema.json";
+
+// Where the design system repository keeps its components, utilities and
+// theme stylesheet
+export const UPSTREAM_COMPONENTS_PATH = "src/components";
+export const UPSTREAM_UTILS_PATH = "src/utils/design-system";
+export const UPSTREAM_STYLES_PATH = "src/styles/globals.css";
+
+// Import alias the design system sources use for their src/ directory
+export const UPSTREAM_IMPORT_ALIAS = "@/";
+
+// Theme color roles, and the base color of each in the design system stylesheet
+export const THEME_COLOR_ROLES = [
+  "brand",
+  "text",
+  "info",
+  "warning",
+  "success",
+  "error",
+] as const;
+export const DEFAULT_THEME_COLORS: Record<
+  (typeof THEME_COLOR_ROLES)[number],
+  string
+> = {
+  brand: "#fc5b43",
+  text: "#22070b",
+  info: "#325ce8",
+  warning: "#8f6c1a",
+  success: "#0a7b40",
+  error: "#c73a3a",
+};
+
+// How the dark palette is switched on: the prefers-color-scheme media query,
+// a .dark class or a [data-theme="dark"] attribute
+export const DARK_MODES = ["media", "class", "attribute"] as const;
+
+// Where the theme stylesheet is written when a project does not choose a path
+export const DEFAULT_STYLES_PATH = "src/styles/globals.css";
+
+// Where utilities are installed when a project does not choose a path
+export const DEFAULT_UTILS_PATH = "src/utils/design-system";
@@ -0,0 +1,267 @@
+import path from "path";
+import { isObject, logWarning } from "../utils.js";
+import { getDesignSystemVersion } from "../config-utils.js";
+import {
+  COMPONENTS,
+  COMPONENT_DEPENDENCIES,
+  COMPONENT_MANIFEST_PATH,
+} from "../config.js";
+import { Registry } from "../registry.js";
+
+export interface ComponentManifestEntry {
+  name: string;
+  description?: string;
+  // Version of the component, if it is versioned separately from the design system
+  version?: string;
+  // Folder of the component under src/components in the design system repository
+  folder: string;
+  // Files of the component, relative to its folder
+  files: string[];
+  // Other components this component is built from
+  registryDependencies?: string[];
+  // npm packages the component needs (names, optionally with a version range)
+  dependencies?: string[];
+}
+
+/**
+ * The registry manifest (registry.json at the root of the design system repository)
+ */
+export interface ComponentManifest {
+  version?: string;
+  components: ComponentManifestEntry[];
+}
+
+/**
+ * The components available from a registry at a ref
+ */
+export interface ComponentCatalog {
+  registry: Registry;
+  ref: string;
+  // Version of the design system at the ref
+  version: string;
+  components: ComponentManifestEntry[];
+  // False when the manifest could not be loaded and the built-in list is used
+  fromManifest: boolean;
+}
+
+/**
+ * Gets the folder name of a component (e.g. "radio-group" -> "BogRadioGroup")
+ * This is only a guess used for components missing from the manifest
+ */
+export function guessComponentFolderName(component: string): string {
+  return `Bog${component
+    .split("-")
+    .map((part: string) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("")}`;
+}
+
+/**
+ * Builds a manifest entry for a component that is not listed in a manifest,
+ * assuming one `.tsx` file and one `styles.module.css`
+ */
+function guessManifestEntry(component: string): ComponentManifestEntry {
+  const folder = guessComponentFolderName(component);
+  return {
+    name: component,
+    folder,
+    files: [`${folder}.tsx`, "styles.module.css"],
+    registryDependencies: COMPONENT_DEPENDENCIES[component] ?? [],
+  };
+}
+
+/**
+ * Checks that a relative path from a manifest stays inside the directory it
+ * is resolved against: not absolute, not empty and without ".." leaving it
+ */
+export function isContainedPath(relativePath: string): boolean {
+  if (path.posix.isAbsolute(relativePath) || path.win32.isAbsolute(relativePath)) {
+    return false;
+  }
+  const normalized = path.posix.normalize(relativePath.replace(/\\/g, "/"));
+  return (
+    normalized !== "." && normalized !== ".." && !normalized.startsWith("../")
+  );
+}
+
+/**
+ * Checks that parsed JSON looks like a manifest entry whose folder and files
+ * stay inside the components directory
+ */
+function isManifestEntry(value: unknown): value is ComponentManifestEntry {
+  return (
+    isObject(value) &&
+    typeof value.name === "string" &&
+    typeof value.folder === "string" &&
+    isContainedPath(value.folder) &&
+    Array.isArray(value.files) &&
+    value.files.every(
+      (file: unknown) => typeof file === "string" && isContainedPath(file)
+    ) &&
+    (value.registryDependencies === undefined ||
+      Array.isArray(value.registryDependencies)) &&
+    (value.dependencies === undefined || Array.isArray(value.dependencies))
+  );
+}
+
+/**
+ * Checks that parsed JSON looks like a component manifest
+ */
+function isComponentManifest(value: unknown): value is ComponentManifest {
+  return (
+    isObject(value) &&
+    Array.isArray(value.components) &&
+    value.components.every(isManifestEntry)
+  );
+}
+
+/**
+ * Loads the component catalog from the registry manifest
+ * Falls back to the built-in component list when the manifest is missing or invalid
+ */
+export async function loadCatalog(
+  registry: Registry,
+  ref: string
+): Promise<ComponentCatalog> {
+  let manifest: ComponentManifest | null = null;
+
+  try {
+    const parsed = JSON.parse(
+      await registry.readText(COMPONENT_MANIFEST_PATH, ref)
+    );
+    if (isComponentManifest(parsed)) {
+      manifest = parsed;
+    } else {
+      logWarning(`${COMPONENT_MANIFEST_PATH} in the registry is invalid.`);
+    }
+  } catch {
+    // Older refs have no manifest
+  }
+
+  if (!manifest) {
+    logWarning(
+      `Could not load the component manifest, using the built-in component list.`
+    );
+  }
+
+  return {
+    registry,
+    ref,
+    version: manifest?.version ?? (await getDesignSystemVersion(registry, ref)),
+    components: manifest
+      ? manifest.components
+      : COMPONENTS.map(guessManifestEntry),
+    fromManifest: !!manifest,
+  };
+}
+
+/**
+ * Gets the design system version at a ref the way loadCatalog does, from the
+ * manifest or else package.json, without loading the components
+ */
+export async function getRegistryVersion(
+  registry: Registry,
+  ref: string
+): Promise<string> {
+  try {
+    const parsed = JSON.parse(
+      await registry.readText(COMPONENT_MANIFEST_PATH, ref)
+    );
+    if (typeof parsed?.version === "string") {
+      return parsed.version;
+    }
+  } catch {
+    // Older refs have no manifest
+  }
+  return getDesignSystemVersion(registry, ref);
+}
+
+/**
+ * Gets the manifest entry of a component
+ * Components missing from the catalog (e.g. removed upstream) get a guessed entry
+ */
+export function getCatalogEntry(
+  catalog: ComponentCatalog,
+  component: string
+): ComponentManifestEntry {
+  return (
+    catalog.components.find((entry) => entry.name === component) ??
+    guessManifestEntry(component)
+  );
+}
+
+/**
+ * Gets the latest available version of a component
+ */
+export function getLatestVersion(
+  catalog: ComponentCatalog,
+  component: string
+): string {
+  return getCatalogEntry(catalog, component).version ?? catalog.version;
+}
+
+/**
+ * Gets the names of every component in the catalog
+ */
+export function getComponentNames(catalog: ComponentCatalog): string[] {
+  return catalog.components.map((entry) => entry.name);
+}
+
+/**
+ * Resolves the components that have to be installed alongside the requested
+ * ones, following dependencies transitively
+ * @returns Each missing dependency, mapped to the component that requires it
+ */
+export function resolveComponentDependencies(
+  catalog: ComponentCatalog,
+  requested: string[],
+  installed: string[]
+): Map<string, string> {
+  const missing = new Map<string, string>();
+  const queue = [...requested];
+
+  while (queue.length > 0) {
+    const component = queue.shift()!;
+    const dependencies =
+      getCatalogEntry(catalog, component).registryDependencies ?? [];
+
+    for (const dependency of dependencies) {
+      if (
+        installed.includes(dependency) ||
+        requested.includes(dependency) ||
+        missing.has(dependency)
+      ) {
+        continue;
+      }
+      missing.set(dependency, component);
+      queue.push(dependency);
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Finds the components being removed that other remaining components still depend on
+ * @param remaining - The components that will be installed after the change
+ * @returns Each required component, mapped to the components that require it
+ */
+export function findRequiredComponents(
+  catalog: ComponentCatalog,
+  removing: string[],
+  remaining: string[]
+): Map<string, string[]> {
+  const required = new Map<string, string[]>();
+
+  for (const component of removing) {
+    const dependents = remaining.filter((other) =>
+      (getCatalogEntry(catalog, other).registryDependencies ?? []).includes(
+        component
+      )
+    );
+    if (dependents.length > 0) {
+      required.set(component, dependents);
+    }
+  }
+
+  return required;
+}
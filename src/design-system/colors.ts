@@ -0,0 +1,173 @@
+/**
+ * Color conversions for theme generation
+ * Colors are #rrggbb strings; OKLCH is used to derive shades because its
+ * lightness matches perceived lightness across hues
+ */
+
+type Rgb = [number, number, number];
+
+export interface Oklch {
+  // 0 (black) to 1 (white)
+  l: number;
+  c: number;
+  // Degrees
+  h: number;
+}
+
+/**
+ * Parses #rrggbb into sRGB channels from 0 to 1
+ */
+function hexToRgb(hex: string): Rgb {
+  return [1, 3, 5].map(
+    (start) => parseInt(hex.slice(start, start + 2), 16) / 255
+  ) as Rgb;
+}
+
+/**
+ * Formats sRGB channels from 0 to 1 as #rrggbb
+ */
+function rgbToHex(rgb: Rgb): string {
+  return `#${rgb
+    .map((channel) =>
+      Math.round(Math.min(1, Math.max(0, channel)) * 255)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("")}`;
+}
+
+const toLinear = (channel: number) =>
+  channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+
+const fromLinear = (channel: number) =>
+  channel <= 0.0031308
+    ? channel * 12.92
+    : 1.055 * Math.sign(channel) * Math.abs(channel) ** (1 / 2.4) - 0.055;
+
+/**
+ * Converts #rrggbb to OKLCH
+ */
+export function hexToOklch(hex: string): Oklch {
+  const [r, g, b] = hexToRgb(hex).map(toLinear) as Rgb;
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const lightness = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  const hue = (Math.atan2(bAxis, a) * 180) / Math.PI;
+  return {
+    l: lightness,
+    c: Math.sqrt(a * a + bAxis * bAxis),
+    h: hue < 0 ? hue + 360 : hue,
+  };
+}
+
+/**
+ * Converts OKLCH to linear sRGB, which may be outside the sRGB gamut
+ */
+function oklchToLinearRgb({ l, c, h }: Oklch): Rgb {
+  const a = c * Math.cos((h * Math.PI) / 180);
+  const b = c * Math.sin((h * Math.PI) / 180);
+
+  const lCube = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const mCube = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const sCube = (l - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return [
+    4.0767416621 * lCube - 3.3077115913 * mCube + 0.2309699292 * sCube,
+    -1.2684380046 * lCube + 2.6097574011 * mCube - 0.3413193965 * sCube,
+    -0.0041960863 * lCube - 0.7034186147 * mCube + 1.707614701 * sCube,
+  ];
+}
+
+/**
+ * Converts OKLCH to #rrggbb, reducing the chroma until the color fits in sRGB
+ */
+export function oklchToHex(color: Oklch): string {
+  const inGamut = (rgb: Rgb) =>
+    rgb.every((channel) => channel >= -0.0001 && channel <= 1.0001);
+
+  let { c } = color;
+  let rgb = oklchToLinearRgb(color);
+  while (!inGamut(rgb) && c > 0.0001) {
+    c *= 0.95;
+    rgb = oklchToLinearRgb({ ...color, c });
+  }
+  return rgbToHex(rgb.map(fromLinear) as Rgb);
+}
+
+/**
+ * Derives a shade of a new base color from a shade of a reference base color,
+ * keeping how the shade differs from its base in lightness, chroma and hue
+ * @param shade - A shade of `reference`
+ * @param reference - The base color the shade was designed for
+ * @param base - The new base color
+ */
+export function deriveShade(
+  shade: string,
+  reference: string,
+  base: string
+): string {
+  const from = hexToOklch(reference);
+  const to = hexToOklch(base);
+  const target = hexToOklch(shade);
+
+  // Scale lightness within the room left between the base and white or black
+  const l =
+    target.l >= from.l
+      ? to.l + ((target.l - from.l) * (1 - to.l)) / Math.max(1 - from.l, 1e-6)
+      : (to.l * target.l) / Math.max(from.l, 1e-6);
+  const c = from.c > 1e-4 ? (to.c * target.c) / from.c : target.c;
+  const h = to.c > 1e-4 ? to.h + (target.h - from.h) : target.h;
+
+  return oklchToHex({ l, c, h: (h + 360) % 360 });
+}
+
+/**
+ * Computes the WCAG relative luminance of a color
+ */
+function relativeLuminance(hex: string): number {
+  const [r, g, b] = hexToRgb(hex).map(toLinear) as Rgb;
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Computes the WCAG contrast ratio of two colors, from 1 to 21
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const [lighter, darker] = [
+    relativeLuminance(foreground),
+    relativeLuminance(background),
+  ].sort((a, b) => b - a) as [number, number];
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Sets the OKLCH lightness of a color, keeping its hue and as much of its
+ * chroma as fits in sRGB
+ */
+export function withLightness(hex: string, lightness: number): string {
+  return oklchToHex({ ...hexToOklch(hex), l: lightness });
+}
+
+/**
+ * Lightens a color until it reaches a contrast ratio against a dark background
+ * @returns The color, unchanged if it already has enough contrast
+ */
+export function lightenForContrast(
+  hex: string,
+  background: string,
+  ratio: number
+): string {
+  let color = hex;
+  let { l } = hexToOklch(hex);
+  while (contrastRatio(color, background) < ratio && l < 1) {
+    l = Math.min(1, l + 0.01);
+    color = withLightness(hex, l);
+  }
+  return color;
+}
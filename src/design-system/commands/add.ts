@@ -0,0 +1,156 @@
+import { Command } from "commander";
+import path from "path";
+import { logInfo, logError, logWarning, logColored } from "../../utils.js";
+import {
+  serializeBogConfig,
+  getDesignSystemRef,
+  pinDesignSystemRef,
+  getRegistry,
+} from "../../config-utils.js";
+import { createChangeSet, applyChanges } from "../../file-changes.js";
+import { CONFIG_FILE_NAME } from "../../config.js";
+import { PromptCancelledError } from "../../prompt-utils.js";
+import {
+  addComponents,
+  displayDiff,
+  getComponentFolderName,
+  validateComponentNames,
+  includeComponentDependencies,
+  markAsDependencies,
+} from "../components.js";
+import { loadProject } from "../project.js";
+import { loadCatalog } from "../catalog.js";
+import { installComponentPackages } from "../packages.js";
+
+interface AddOptions {
+  root?: string;
+  pm?: string;
+  verbose?: boolean;
+  install: boolean;
+  ref?: string;
+  registry?: string;
+}
+
+export const add = new Command()
+  .command("add")
+  .description("Add design system components to your project")
+  .argument("<components...>", "names of the components to add")
+  .option(
+    "--ref <ref>",
+    "design system branch, tag or commit SHA to pin the project to"
+  )
+  .option(
+    "--registry <source>",
+    "where to download design system files from (github:<owner>/<name>, an HTTP URL or a directory)"
+  )
+  .option(
+    "--pm <manager>",
+    "package manager to use (npm, yarn, pnpm, bun); detected from the lockfile by default"
+  )
+  .option("--verbose", "stream package manager output")
+  .option("--no-install", "skip installing the packages components need")
+  .option("-r, --root <path>", "project root directory")
+  .action(async (names: string[], options: AddOptions) => {
+    try {
+      const project = await loadProject(options);
+      if (!project) {
+        process.exitCode = 1;
+        return;
+      }
+      const { root, config } = project;
+      const installed = config["design-system"].components;
+      const refChanged = pinDesignSystemRef(config, options.ref);
+      const registry = getRegistry(root, config, options.registry);
+      const catalog = await loadCatalog(registry, getDesignSystemRef(config));
+
+      const components = validateComponentNames(names, catalog);
+      if (!components) {
+        process.exitCode = 1;
+        return;
+      }
+
+      let configChanged = refChanged;
+      const requested = components.filter((comp) => {
+        if (!installed[comp]) return true;
+        if (installed[comp].installedAsDependency) {
+          // Explicitly adding a dependency keeps it installed on its own
+          delete installed[comp].installedAsDependency;
+          configChanged = true;
+          logInfo(`${comp} is now installed explicitly.`);
+          return false;
+        }
+        logWarning(
+          `${comp} is already installed (v${installed[comp].version}). Use 'bog design update ${comp}' to update it.`
+        );
+        return false;
+      });
+
+      const changes = createChangeSet(root);
+      if (requested.length === 0) {
+        logInfo("No components to add.");
+        if (configChanged) {
+          changes.write(CONFIG_FILE_NAME, serializeBogConfig(config));
+          await applyChanges(changes);
+        }
+        return;
+      }
+
+      const { components: componentsToAdd, dependencies } =
+        includeComponentDependencies(
+          catalog,
+          requested,
+          Object.keys(installed)
+        );
+
+      const installPath = config["design-system"].path;
+      const succeeded = await addComponents(
+        componentsToAdd,
+        path.join(root, installPath),
+        config,
+        catalog,
+        changes
+      );
+      if (!succeeded) {
+        logError(
+          "No files were changed because some components failed to install."
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      // Write the files and bog.json together, so neither is left half done
+      markAsDependencies(config, dependencies);
+      changes.write(CONFIG_FILE_NAME, serializeBogConfig(config));
+      await applyChanges(changes);
+
+      displayDiff(
+        componentsToAdd
+          .filter((comp) => installed[comp])
+          .map(
+            (comp) =>
+              `${installPath}/${getComponentFolderName(catalog, comp)}/`
+          ),
+        "added"
+      );
+
+      const packagesInstalled = await installComponentPackages(
+        root,
+        catalog,
+        componentsToAdd,
+        options
+      );
+
+      if (!packagesInstalled) {
+        process.exitCode = 1;
+      } else {
+        logColored("\nSuccessfully added components!", "GREEN");
+      }
+    } catch (error: any) {
+      if (error instanceof PromptCancelledError) {
+        logInfo("\nOperation cancelled.");
+        return;
+      }
+      logError(`${error.message || "Unknown error occurred"}`);
+      process.exitCode = 1;
+    }
+  });
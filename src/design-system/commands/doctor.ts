@@ -0,0 +1,780 @@
+import { Command } from "commander";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+import { logInfo, logError, logColored } from "../../utils.js";
+import {
+  serializeBogConfig,
+  getDesignSystemRef,
+  getRegistry,
+} from "../../config-utils.js";
+import {
+  BogConfig,
+  FontsConfig,
+  StylesConfig,
+  ThemeConfig,
+} from "../../bog-config.js";
+import {
+  CONFIG_FILE_NAME,
+  DEFAULT_STYLES_PATH,
+  DEFAULT_UTILS_PATH,
+  DEV_DEPENDENCIES,
+  FONTS,
+  FONT_FACES,
+} from "../../config.js";
+import { PromptCancelledError } from "../../prompt-utils.js";
+import { Registry } from "../../registry.js";
+import {
+  ChangeSet,
+  createChangeSet,
+  applyChanges,
+} from "../../file-changes.js";
+import {
+  addComponents,
+  findMissingFiles,
+  resolveLocalChanges,
+  LocalChangeStrategy,
+} from "../components.js";
+import { loadProject } from "../project.js";
+import { detectFramework } from "../frameworks.js";
+import { hasImport } from "../imports.js";
+import {
+  TAILWIND_POSTCSS_PLUGIN,
+  detectTailwindV3,
+  findPostcssConfig,
+} from "../tailwind.js";
+import { ComponentCatalog, loadCatalog } from "../catalog.js";
+import {
+  findMissingPackages,
+  installComponentPackages,
+  readProjectPackages,
+  getPackageName,
+} from "../packages.js";
+import {
+  installDependencies,
+  setupTailwind,
+  setupUtils,
+  setupStyles,
+  importStylesheet,
+  setupFonts,
+} from "../setup.js";
+import { isUtilsOutdated } from "../utilities.js";
+
+interface DoctorOptions {
+  root?: string;
+  fix?: boolean;
+  pm?: string;
+  verbose?: boolean;
+  ref?: string;
+  registry?: string;
+  utilsPath?: string;
+  utilsAlias?: string;
+  stylesPath?: string;
+  fontsPath?: string;
+  onModified?: LocalChangeStrategy;
+}
+
+type CheckStatus = "pass" | "warn" | "fail";
+
+interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  // How to fix the problem by hand
+  hint?: string;
+  // Re-runs the setup step that fixes the problem, returning false if it failed
+  fix?: () => Promise<boolean>;
+}
+
+interface DoctorContext {
+  root: string;
+  config: BogConfig;
+  registry: Registry;
+  ref: string;
+  // Null when the registry's component manifest could not be loaded
+  catalog: ComponentCatalog | null;
+  options: DoctorOptions;
+}
+
+/**
+ * Runs a setup step and writes the files it changed
+ * Nothing is written if the step failed, so a fix never leaves files half done
+ */
+async function applyStep(
+  root: string,
+  step: (changes: ChangeSet) => Promise<boolean>
+): Promise<boolean> {
+  const changes = createChangeSet(root);
+  const succeeded = await step(changes);
+  if (succeeded) {
+    await applyChanges(changes);
+  }
+  return succeeded;
+}
+
+function checkPostcssConfig({ root, options }: DoctorContext): CheckResult {
+  const name = "PostCSS config";
+  const changes = createChangeSet(root);
+  const configFile = findPostcssConfig(changes);
+  const fix = () =>
+    applyStep(root, (changes) =>
+      setupTailwind(root, changes, {
+        ...options,
+        tailwind: true,
+        migrateTailwind: false,
+      })
+    );
+
+  if (!configFile) {
+    return {
+      name,
+      status: "fail",
+      message: "No PostCSS config found",
+      hint: `Run 'bog design init --tailwind' or create postcss.config.mjs with the ${TAILWIND_POSTCSS_PLUGIN} plugin`,
+      fix,
+    };
+  }
+
+  if (!(changes.readText(configFile) ?? "").includes(TAILWIND_POSTCSS_PLUGIN)) {
+    return {
+      name,
+      status: "fail",
+      message: `${configFile} does not use ${TAILWIND_POSTCSS_PLUGIN}`,
+      hint: `Add '${TAILWIND_POSTCSS_PLUGIN}' to the plugins in ${configFile}`,
+      fix,
+    };
+  }
+
+  return { name, status: "pass", message: `${configFile} found` };
+}
+
+function checkTailwindVersion({ root, options }: DoctorContext): CheckResult {
+  const name = "Tailwind version";
+  const v3 = detectTailwindV3(createChangeSet(root));
+
+  if (v3) {
+    return {
+      name,
+      status: "warn",
+      message: `Tailwind v3 files found: ${[v3.configFile, ...v3.stylesheets]
+        .filter(Boolean)
+        .join(", ")}`,
+      hint: "Run 'bog design init --tailwind --migrate-tailwind' to migrate to Tailwind v4",
+      fix: () =>
+        applyStep(root, (changes) =>
+          setupTailwind(root, changes, {
+            ...options,
+            tailwind: true,
+            migrateTailwind: true,
+          })
+        ),
+    };
+  }
+
+  return { name, status: "pass", message: "No Tailwind v3 setup found" };
+}
+
+function checkDevDependencies({ root, options }: DoctorContext): CheckResult {
+  const name = "Tailwind packages";
+  const installed = readProjectPackages(root);
+  const missing = DEV_DEPENDENCIES.filter(
+    (dep) => !installed.has(getPackageName(dep))
+  );
+
+  if (missing.length > 0) {
+    return {
+      name,
+      status: "fail",
+      message: `Not in package.json: ${missing.join(", ")}`,
+      hint: `Install them as dev dependencies (e.g. npm install -D ${missing.join(" ")})`,
+      fix: () => installDependencies(root, { ...options, install: true }),
+    };
+  }
+
+  return { name, status: "pass", message: DEV_DEPENDENCIES.join(", ") };
+}
+
+/**
+ * Records the stylesheet location (and theme) returned by a setup step in bog.json
+ */
+function recordStyles(
+  changes: ChangeSet,
+  config: BogConfig,
+  styles: StylesConfig | null,
+  theme?: ThemeConfig
+): boolean {
+  if (!styles) return false;
+
+  config["design-system"].styles = styles;
+  if (theme) {
+    config["design-system"].theme = theme;
+  }
+  changes.write(CONFIG_FILE_NAME, serializeBogConfig(config));
+  return true;
+}
+
+function checkStylesheet({
+  root,
+  config,
+  registry,
+  ref,
+  options,
+}: DoctorContext): CheckResult {
+  const name = "Theme stylesheet";
+  const recorded = config["design-system"].styles;
+  const stylesPath =
+    options.stylesPath ?? recorded?.path ?? DEFAULT_STYLES_PATH;
+
+  if (!existsSync(path.join(root, stylesPath))) {
+    return {
+      name,
+      status: "fail",
+      message: `${stylesPath} is missing`,
+      hint: "Run 'bog design init --styles' (use --styles-path if the stylesheet lives elsewhere)",
+      fix: () =>
+        applyStep(root, async (changes) => {
+          // Regenerate the stylesheet with the theme recorded in bog.json
+          const setup = await setupStyles(
+            root,
+            changes,
+            registry,
+            ref,
+            true,
+            {
+              ...options,
+              stylesPath,
+              styles: true,
+              customizeTheme: false,
+              darkMode: config["design-system"].theme?.dark ?? "none",
+              layoutImport: true,
+            },
+            recorded,
+            config["design-system"].theme,
+            config["design-system"].fonts
+          );
+          return recordStyles(changes, config, setup?.styles ?? null, setup?.theme);
+        }),
+    };
+  }
+
+  return { name, status: "pass", message: `${stylesPath} found` };
+}
+
+function checkStylesheetImport({
+  root,
+  config,
+  options,
+}: DoctorContext): CheckResult {
+  const name = "Stylesheet import";
+  const recorded = config["design-system"].styles;
+  const stylesPath =
+    options.stylesPath ?? recorded?.path ?? DEFAULT_STYLES_PATH;
+  const entryFile =
+    recorded?.entry && existsSync(path.join(root, recorded.entry))
+      ? recorded.entry
+      : detectFramework(createChangeSet(root))?.entryFile;
+
+  if (!entryFile) {
+    return {
+      name,
+      status: "warn",
+      message:
+        "No Next.js, Remix or Vite entry file found, so the import could not be checked",
+      hint: `Make sure ${stylesPath} is imported into your app's entry file`,
+    };
+  }
+
+  const imported = hasImport(
+    root,
+    readFileSync(path.join(root, entryFile), "utf8"),
+    entryFile,
+    stylesPath
+  );
+  if (imported === null) {
+    return {
+      name,
+      status: "warn",
+      message: `${entryFile} could not be parsed, so the import could not be checked`,
+      hint: `Make sure ${stylesPath} is imported into ${entryFile}`,
+    };
+  }
+
+  if (!imported) {
+    return {
+      name,
+      status: "fail",
+      message: `${stylesPath} is not imported in ${entryFile}`,
+      hint: `Import ${stylesPath} in ${entryFile}`,
+      fix: () =>
+        applyStep(root, async (changes) => {
+          const styles = await importStylesheet(
+            root,
+            changes,
+            stylesPath,
+            { ...options, layoutImport: true },
+            recorded
+          );
+          return recordStyles(changes, config, { ...styles, hash: recorded?.hash });
+        }),
+    };
+  }
+
+  return {
+    name,
+    status: "pass",
+    message: `${stylesPath} is imported in ${entryFile}`,
+  };
+}
+
+/**
+ * Records the fonts returned by setupFonts in bog.json
+ */
+function recordFonts(
+  changes: ChangeSet,
+  config: BogConfig,
+  fonts: FontsConfig | null
+): boolean {
+  if (!fonts) return false;
+
+  config["design-system"].fonts = fonts;
+  changes.write(CONFIG_FILE_NAME, serializeBogConfig(config));
+  return true;
+}
+
+function checkFonts({
+  root,
+  config,
+  registry,
+  ref,
+  options,
+}: DoctorContext): CheckResult {
+  const name = "Fonts";
+  const recorded = config["design-system"].fonts;
+  const fontsDir = options.fontsPath
+    ? path.join(options.fontsPath, "fonts")
+    : (recorded?.path ?? path.join("public", "fonts"));
+  const fix = () =>
+    applyStep(root, async (changes) =>
+      recordFonts(
+        changes,
+        config,
+        await setupFonts(
+          root,
+          changes,
+          registry,
+          ref,
+          {
+            ...options,
+            fonts: true,
+            fontsPath: path.dirname(fontsDir),
+            fontLoader: recorded?.loader,
+          },
+          recorded
+        )
+      )
+    );
+
+  const missing = FONTS.filter(
+    (font) => !existsSync(path.join(root, fontsDir, font))
+  );
+  if (missing.length > 0) {
+    return {
+      name,
+      status: "warn",
+      message: `Missing from ${fontsDir}: ${missing.join(", ")}`,
+      hint: "Run 'bog design init --fonts' (use --fonts-path if your public directory lives elsewhere)",
+      fix,
+    };
+  }
+
+  if (!recorded) {
+    return {
+      name,
+      status: "warn",
+      message: `${fontsDir} has every font, but bog.json does not record how they are loaded`,
+      hint: "Run 'bog design init --fonts' to load them with @font-face rules or next/font",
+      fix,
+    };
+  }
+
+  if (recorded.loader === "next-font") {
+    const modulePath = recorded.module ?? "";
+    if (!existsSync(path.join(root, modulePath))) {
+      return {
+        name,
+        status: "warn",
+        message: `The next/font module ${modulePath} is missing`,
+        hint: "Run 'bog design init --fonts --font-loader next-font'",
+        fix,
+      };
+    }
+    return {
+      name,
+      status: "pass",
+      message: `${fontsDir} has every font, loaded by ${modulePath}`,
+    };
+  }
+
+  const stylesPath =
+    options.stylesPath ??
+    config["design-system"].styles?.path ??
+    DEFAULT_STYLES_PATH;
+  const stylesheet = existsSync(path.join(root, stylesPath))
+    ? readFileSync(path.join(root, stylesPath), "utf8")
+    : "";
+  const unloaded = FONT_FACES.filter(
+    ({ family }) => !stylesheet.includes(`font-family: "${family}"`)
+  );
+  if (unloaded.length > 0) {
+    return {
+      name,
+      status: "warn",
+      message: `${stylesPath} has no @font-face rule for ${unloaded
+        .map(({ family }) => family)
+        .join(", ")}`,
+      hint: "Run 'bog design theme apply' to regenerate the stylesheet with the @font-face rules",
+    };
+  }
+
+  return {
+    name,
+    status: "pass",
+    message: `${fontsDir} has every font, loaded by ${stylesPath}`,
+  };
+}
+
+function checkUtils({
+  root,
+  config,
+  registry,
+  ref,
+  catalog,
+  options,
+}: DoctorContext): CheckResult {
+  const name = "Utility functions";
+  const recorded = config["design-system"].utils;
+  const utilsPath = options.utilsPath ?? recorded?.path ?? DEFAULT_UTILS_PATH;
+  const utilsDir = path.join(root, utilsPath);
+
+  if (!existsSync(utilsDir) || readdirSync(utilsDir).length === 0) {
+    return {
+      name,
+      status: "warn",
+      message: `${utilsPath} is missing or empty`,
+      hint: "Run 'bog design init --utils' (use --utils-path if they live elsewhere)",
+      fix: () =>
+        applyStep(root, async (changes) => {
+          const utils = await setupUtils(
+            root,
+            changes,
+            registry,
+            ref,
+            {
+              ...options,
+              utils: true,
+              utilsPath,
+              utilsAlias: options.utilsAlias ?? recorded?.alias,
+            },
+            config["design-system"].path
+          );
+          if (!utils) return false;
+
+          config["design-system"].utils = utils;
+          changes.write(
+            path.join(root, CONFIG_FILE_NAME),
+            serializeBogConfig(config)
+          );
+          return true;
+        }),
+    };
+  }
+
+  if (recorded && catalog && isUtilsOutdated(recorded, catalog.version)) {
+    return {
+      name,
+      status: "warn",
+      message: `${utilsPath} is outdated (v${recorded.version ?? "unknown"} → v${catalog.version})`,
+      hint: "Run 'bog design update --utils'",
+    };
+  }
+
+  return { name, status: "pass", message: `${utilsPath} found` };
+}
+
+function checkComponentPackages({
+  root,
+  config,
+  catalog,
+  options,
+}: DoctorContext): CheckResult {
+  const name = "Component packages";
+  if (!catalog) {
+    return {
+      name,
+      status: "warn",
+      message: "Skipped because the component manifest could not be loaded",
+    };
+  }
+
+  const components = Object.keys(config["design-system"].components);
+  const missing = findMissingPackages(root, catalog, components);
+  if (missing.length > 0) {
+    return {
+      name,
+      status: "fail",
+      message: `Not in package.json: ${missing.join(", ")}`,
+      hint: `Install them with your package manager (e.g. npm install ${missing.join(" ")})`,
+      fix: () =>
+        installComponentPackages(root, catalog, components, {
+          ...options,
+          install: true,
+        }),
+    };
+  }
+
+  return {
+    name,
+    status: "pass",
+    message: "Every package installed components need is in package.json",
+  };
+}
+
+function checkComponentFolders({
+  root,
+  config,
+  catalog,
+  options,
+}: DoctorContext): CheckResult[] {
+  const name = "Component files";
+  if (!catalog) {
+    return [
+      {
+        name,
+        status: "warn",
+        message: "Skipped because the component manifest could not be loaded",
+      },
+    ];
+  }
+
+  const installPath = config["design-system"].path;
+  const installDir = path.join(root, installPath);
+  const installed = config["design-system"].components;
+  const results: CheckResult[] = [];
+
+  const incomplete = Object.keys(installed).filter(
+    (component) =>
+      findMissingFiles(component, installDir, config, catalog).length > 0
+  );
+
+  if (incomplete.length > 0) {
+    results.push({
+      name,
+      status: "fail",
+      message: `Missing files for: ${incomplete.join(", ")}`,
+      hint: `Run 'bog design update --force ${incomplete.join(" ")}'`,
+      fix: async () => {
+        // The rest of a partly deleted component may have been edited
+        const strategies = await resolveLocalChanges(
+          incomplete,
+          installDir,
+          config,
+          catalog,
+          options
+        );
+        return applyStep(root, async (changes) => {
+          const succeeded = await addComponents(
+            incomplete,
+            installDir,
+            config,
+            catalog,
+            changes,
+            strategies
+          );
+          changes.write(CONFIG_FILE_NAME, serializeBogConfig(config));
+          return succeeded;
+        });
+      },
+    });
+  } else {
+    results.push({
+      name,
+      status: "pass",
+      message: `Every component in bog.json is in ${installPath}`,
+    });
+  }
+
+  // Component folders that bog.json doesn't know about
+  if (existsSync(installDir)) {
+    const untracked = catalog.components.filter(
+      (entry) =>
+        !installed[entry.name] &&
+        existsSync(path.join(installDir, entry.folder))
+    );
+
+    if (untracked.length > 0) {
+      results.push({
+        name: "Untracked components",
+        status: "warn",
+        message: `Not in bog.json: ${untracked
+          .map((entry) => `${installPath}/${entry.folder}`)
+          .join(", ")}`,
+        hint: `Run 'bog design add ${untracked
+          .map((entry) => entry.name)
+          .join(" ")}' to track them, or delete the folders`,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Runs every health check against the project
+ */
+function runChecks(context: DoctorContext): CheckResult[] {
+  return [
+    checkPostcssConfig(context),
+    checkTailwindVersion(context),
+    checkDevDependencies(context),
+    checkStylesheet(context),
+    checkStylesheetImport(context),
+    checkFonts(context),
+    checkUtils(context),
+    checkComponentPackages(context),
+    ...checkComponentFolders(context),
+  ];
+}
+
+/**
+ * Prints check results with a fix hint for every problem
+ */
+function displayResults(results: CheckResult[]): void {
+  const labels: Record<CheckStatus, string> = {
+    pass: "PASS",
+    warn: "WARN",
+    fail: "FAIL",
+  };
+  const colors = { pass: "GREEN", warn: "YELLOW", fail: "RED" } as const;
+
+  logInfo("");
+  for (const result of results) {
+    logColored(
+      `[${labels[result.status]}] ${result.name}: ${result.message}`,
+      colors[result.status]
+    );
+    if (result.status !== "pass" && result.hint) {
+      logInfo(`       ${result.hint}`);
+    }
+  }
+
+  const count = (status: CheckStatus) =>
+    results.filter((result) => result.status === status).length;
+  logInfo(
+    `\n${count("pass")} passed, ${count("warn")} warnings, ${count("fail")} failed`
+  );
+}
+
+export const doctor = new Command()
+  .command("doctor")
+  .description("Check that the design system is set up correctly")
+  .option("--fix", "re-run the setup steps of the checks that did not pass")
+  .option(
+    "--styles-path <path>",
+    "path of the theme stylesheet; read from bog.json by default"
+  )
+  .option(
+    "--fonts-path <path>",
+    "public directory the fonts are in; read from bog.json by default"
+  )
+  .option(
+    "--utils-path <path>",
+    "path of the utility functions; read from bog.json by default"
+  )
+  .option(
+    "--utils-alias <alias>",
+    "import alias to record when --fix downloads the utility functions"
+  )
+  .option(
+    "--on-modified <strategy>",
+    "how --fix handles locally modified files of incomplete components (overwrite, skip, backup, merge)"
+  )
+  .option(
+    "--ref <ref>",
+    "design system branch, tag or commit SHA to download fixes from"
+  )
+  .option(
+    "--registry <source>",
+    "where to download design system files from (github:<owner>/<name>, an HTTP URL or a directory)"
+  )
+  .option(
+    "--pm <manager>",
+    "package manager to use (npm, yarn, pnpm, bun); detected from the lockfile by default"
+  )
+  .option("--verbose", "stream package manager output")
+  .option("-r, --root <path>", "project root directory")
+  .action(async (options: DoctorOptions) => {
+    try {
+      const project = await loadProject(options);
+      if (!project) {
+        logError("Run 'bog design init' to set up the design system.");
+        process.exitCode = 1;
+        return;
+      }
+      const { root, config } = project;
+      const ref = options.ref ?? getDesignSystemRef(config);
+      const registry = getRegistry(root, config, options.registry);
+
+      // loadCatalog falls back to the built-in component list when the
+      // registry cannot be reached, so checking against it would only guess
+      // which files and packages the components need
+      const loaded = await loadCatalog(registry, ref);
+      const catalog = loaded.fromManifest ? loaded : null;
+
+      const context: DoctorContext = {
+        root,
+        config,
+        registry,
+        ref,
+        catalog,
+        options,
+      };
+      let results = runChecks(context);
+      displayResults(results);
+
+      const fixable = results.filter(
+        (result) => result.status !== "pass" && result.fix
+      );
+      if (options.fix && fixable.length > 0) {
+        for (const result of fixable) {
+          logColored(`\nFixing: ${result.name}`, "CYAN");
+          try {
+            if (!(await result.fix!())) {
+              logError(`Could not fix ${result.name}.`);
+            }
+          } catch (error: any) {
+            if (error instanceof PromptCancelledError) throw error;
+            logError(`Could not fix ${result.name}: ${error.message}`);
+          }
+        }
+
+        logColored("\nRe-running checks...", "CYAN");
+        results = runChecks(context);
+        displayResults(results);
+      } else if (fixable.length > 0) {
+        logInfo(
+          "Run 'bog design doctor --fix' to re-run the failed setup steps."
+        );
+      }
+
+      if (results.some((result) => result.status === "fail")) {
+        process.exitCode = 1;
+      }
+    } catch (error: any) {
+      if (error instanceof PromptCancelledError) {
+        logInfo("\nOperation cancelled.");
+        process.exitCode = 1;
+        return;
+      }
+      logError(`${error.message || "Unknown error occurred"}`);
+      process.exitCode = 1;
+    }
+  });
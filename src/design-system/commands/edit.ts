@@ -1,100 +1,112 @@
 import { Command } from "commander";
-import fs, { existsSync, mkdirSync, rmSync } from "fs";
 import path from "path";
 import prompts from "prompts";
+import { logInfo, logError, logColored } from "../../utils.js";
 import {
-  logInfo,
-  logError,
-  logWarning,
-  logColored,
-  COLORS,
-  findGitRoot,
-} from "../../utils.js";
-import {
-  readBogConfig,
-  writeBogConfig,
-  validateBogConfigExists,
-  bogConfigExists,
-  getDesignSystemVersion,
+  getDesignSystemRef,
+  pinDesignSystemRef,
+  getRegistry,
+  serializeBogConfig,
 } from "../../config-utils.js";
-import { BogConfig } from "../../bog-config.js";
-import { COMPONENTS, BASE_URL, CONFIG_FILE_NAME } from "../../config.js";
-
-/**
- * Displays a diff-style list of created/modified files
- */
-function displayDiff(
-  files: string[],
-  type: "added" | "removed" | "modified" = "added"
-): void {
-  if (files.length === 0) return;
-
-  const prefix = type === "added" ? "+" : type === "removed" ? "-" : "~";
-  const color =
-    type === "added" ? "GREEN" : type === "removed" ? "RED" : "YELLOW";
-
-  logInfo(`\nFiles ${type}:`);
-  files.forEach((file) => {
-    logColored(`${prefix} ${file}`, color);
-  });
+import {
+  createChangeSet,
+  displayChanges,
+  stageChanges,
+  applyChanges,
+} from "../../file-changes.js";
+import { CONFIG_FILE_NAME } from "../../config.js";
+import { PromptCancelledError } from "../../prompt-utils.js";
+import {
+  addComponents,
+  removeComponents,
+  getComponentFolderName,
+  displayDiff,
+  resolveLocalChanges,
+  LocalChangeStrategy,
+  includeComponentDependencies,
+  markAsDependencies,
+  warnRequiredComponents,
+  findUnusedDependencies,
+} from "../components.js";
+import { loadProject } from "../project.js";
+import {
+  installComponentPackages,
+  pruneComponentPackages,
+  displayComponentPackages,
+} from "../packages.js";
+import {
+  loadCatalog,
+  getLatestVersion,
+  getComponentNames,
+} from "../catalog.js";
+import {
+  isUtilsOutdated,
+  resolveUtilsLocalChanges,
+  updateUtils,
+} from "../utilities.js";
+
+interface EditOptions {
+  root?: string;
+  pm?: string;
+  verbose?: boolean;
+  install: boolean;
+  prunePackages?: boolean;
+  ref?: string;
+  registry?: string;
+  onModified?: LocalChangeStrategy;
+  dryRun?: boolean;
 }
 
 export const edit = new Command()
   .command("edit")
   .description("Add, remove, or update design system components")
-  .action(async () => {
+  .option(
+    "--ref <ref>",
+    "design system branch, tag or commit SHA to pin the project to"
+  )
+  .option(
+    "--registry <source>",
+    "where to download design system files from (github:<owner>/<name>, an HTTP URL or a directory)"
+  )
+  .option("-r, --root <path>", "project root directory")
+  .option(
+    "--on-modified <strategy>",
+    "how to handle locally modified components and utilities on update (overwrite, skip, backup, merge)"
+  )
+  .option(
+    "--pm <manager>",
+    "package manager to use (npm, yarn, pnpm, bun); detected from the lockfile by default"
+  )
+  .option("--verbose", "stream package manager output")
+  .option("--no-install", "skip installing the packages components need")
+  .option(
+    "--prune-packages",
+    "uninstall packages no remaining component needs"
+  )
+  .option("--no-prune-packages", "keep packages no component needs")
+  .option(
+    "--dry-run",
+    "show the files and packages edit would change without writing anything"
+  )
+  .action(async (options: EditOptions) => {
     try {
-      // Auto-detect project root or ask user
-      let root: string;
-
-      // First, check if bog.json exists in current directory
-      if (bogConfigExists("./")) {
-        root = "./";
-        logInfo("Detected bog.json in current directory");
-      } else {
-        // Try to find git root and check if bog.json exists there
-        const gitRoot = findGitRoot();
-        if (gitRoot && bogConfigExists(gitRoot)) {
-          root = gitRoot;
-          logInfo(`Detected bog.json in git repository root: ${gitRoot}`);
-        } else {
-          // Ask user for project root
-          if (gitRoot) {
-            logWarning(
-              "Found git repository but no bog.json file. Please specify project root."
-            );
-          }
-
-          const { root: userRoot } = await prompts({
-            type: "text",
-            name: "root",
-            message: "Where is the root of your project?",
-            initial: gitRoot || "./",
-          });
-
-          // Handle (Ctrl+C) during prompt
-          if (!userRoot) {
-            logInfo("\nOperation cancelled.");
-            return;
-          }
-
-          if (!validateBogConfigExists(userRoot)) {
-            return;
-          }
-          root = userRoot;
-        }
-      }
-
-      // Read existing config
-      const config = readBogConfig(root);
-      if (!config) {
-        logError(`Failed to read ${CONFIG_FILE_NAME} configuration`);
+      // Auto-detect project root or ask user, then read existing config
+      const project = await loadProject(options);
+      if (!project) {
+        process.exitCode = 1;
         return;
       }
-
-      // Get current design system version
-      const currentVersion = await getDesignSystemVersion();
-      logInfo(`Current design system version: ${currentVersion}`);
+      const { root, config } = project;
+      const configPath = path.join(root, CONFIG_FILE_NAME);
+      const changes = createChangeSet(root);
+      const refChanged = pinDesignSystemRef(config, options.ref);
+      const registry = getRegistry(root, config, options.registry);
+
+      // Load the available components and the current design system version
+      const catalog = await loadCatalog(registry, getDesignSystemRef(config));
+      logInfo(`Current design system version: ${catalog.version}`);
+      const latestVersion = (component: string) =>
+        getLatestVersion(catalog, component);
 
       const existingComponents = Object.keys(
         config["design-system"].components
@@ -106,10 +118,12 @@ export const edit = new Command()
         existingComponents.forEach((component) => {
           const version =
             config["design-system"].components[component]?.version;
-          const isOutdated = version !== currentVersion;
+          const isOutdated = version !== latestVersion(component);
           logInfo(
             `  - ${component} (v${version})${
-              isOutdated ? ` → update available (v${currentVersion})` : ""
+              isOutdated
+                ? ` → update available (v${latestVersion(component)})`
+                : ""
             }`
           );
         });
@@ -120,7 +134,7 @@ export const edit = new Command()
       const outdatedComponents = existingComponents.filter((comp: string) => {
         const installedVersion =
           config["design-system"].components[comp]?.version;
-        return installedVersion !== currentVersion;
+        return installedVersion !== latestVersion(comp);
       });
 
       // Step 1: Handle updates if there are outdated components
@@ -131,7 +145,7 @@ export const edit = new Command()
           const installedVersion =
             config["design-system"].components[component]?.version;
           logInfo(
-            `  - ${component}: v${installedVersion} → v${currentVersion}`
+            `  - ${component}: v${installedVersion} → v${latestVersion(component)}`
           );
         });
         logInfo("");
@@ -158,7 +172,7 @@ export const edit = new Command()
               const installedVersion =
                 config["design-system"].components[comp]?.version;
               return {
-                title: `${comp}: v${installedVersion} → v${currentVersion}`,
+                title: `${comp}: v${installedVersion} → v${latestVersion(comp)}`,
                 value: comp,
                 selected: true, // Pre-select all outdated components for update
               };
@@ -180,7 +194,7 @@ export const edit = new Command()
               const installedVersion =
                 config["design-system"].components[component]?.version;
               logColored(
-                `  - ${component}: v${installedVersion} → v${currentVersion}`,
+                `  - ${component}: v${installedVersion} → v${latestVersion(component)}`,
                 "YELLOW"
               );
             });
@@ -189,26 +203,76 @@ export const edit = new Command()
         }
       }
 
-      // Step 2: Handle add/remove with unified multiselect
-      const componentChoices = COMPONENTS.map((comp: string) => {
-        const isInstalled = existingComponents.includes(comp);
-        const installedVersion = isInstalled
-          ? config["design-system"].components[comp]?.version
-          : null;
-
-        let title = comp;
-        if (isInstalled) {
-          title += ` (installed v${installedVersion})`;
-        } else {
-          title += ` (new)`;
+      // Offer to update the utility functions alongside the components
+      const utils = config["design-system"].utils;
+      let updateUtilsToo = false;
+      if (utils && isUtilsOutdated(utils, catalog.version)) {
+        const { wantToUpdateUtils } = await prompts({
+          type: "confirm",
+          name: "wantToUpdateUtils",
+          message: `Update the utility functions in ${utils.path} (v${
+            utils.version ?? "unknown"
+          } → v${catalog.version})?`,
+          initial: true,
+        });
+
+        if (wantToUpdateUtils === undefined) {
+          logInfo("\nOperation cancelled.");
+          return;
         }
+        updateUtilsToo = wantToUpdateUtils;
+      }
 
-        return {
-          title,
-          value: comp,
-          selected: isInstalled, // Pre-select installed components
-        };
-      });
+      const installPath = config["design-system"].path;
+      // Resolve the install path relative to the root directory
+      const absoluteInstallPath = path.join(root, installPath);
+
+      // Check the components being updated for local changes
+      const strategies = await resolveLocalChanges(
+        componentsToUpdate,
+        absoluteInstallPath,
+        config,
+        catalog,
+        options
+      );
+      const utilsStrategy =
+        utils && updateUtilsToo
+          ? await resolveUtilsLocalChanges(root, utils, options)
+          : "skip";
+
+      // Step 2: Handle add/remove with unified multiselect
+      // Installed components missing from the catalog stay selectable so they aren't removed silently
+      const choiceEntries = [
+        ...catalog.components,
+        ...existingComponents
+          .filter((comp) => !getComponentNames(catalog).includes(comp))
+          .map((comp) => ({
+            name: comp,
+            description: "No longer available in the registry",
+          })),
+      ];
+      const componentChoices = choiceEntries.map(
+        ({ name: comp, description }) => {
+          const isInstalled = existingComponents.includes(comp);
+          const installedVersion = isInstalled
+            ? config["design-system"].components[comp]?.version
+            : null;
+
+          let title = comp;
+          if (isInstalled) {
+            title += ` (installed v${installedVersion})`;
+          } else {
+            title += ` (new)`;
+          }
+
+          return {
+            title,
+            description,
+            value: comp,
+            selected: isInstalled, // Pre-select installed components
+          };
+        }
+      );
 
       const { selectedComponents } = await prompts({
         type: "multiselect",
@@ -225,25 +289,66 @@ export const edit = new Command()
         return;
       }
 
-      const installPath = config["design-system"].path;
-      // Resolve the install path relative to the root directory
-      const absoluteInstallPath = path.join(root, installPath);
-
       // Determine what changed
-      const componentsToAdd = selectedComponents.filter(
+      const selectedToAdd = selectedComponents.filter(
         (comp: string) => !existingComponents.includes(comp)
       );
-      const componentsToRemove = existingComponents.filter(
+      let componentsToRemove = existingComponents.filter(
         (comp: string) => !selectedComponents.includes(comp)
       );
 
+      // Keep components that remaining components are built from, unless confirmed
+      const required = warnRequiredComponents(
+        catalog,
+        componentsToRemove,
+        [...existingComponents, ...selectedToAdd].filter(
+          (comp) => !componentsToRemove.includes(comp)
+        )
+      );
+      for (const component of required.keys()) {
+        const { removeAnyway } = await prompts({
+          type: "confirm",
+          name: "removeAnyway",
+          message: `Remove ${component} anyway?`,
+          initial: false,
+        });
+
+        if (removeAnyway === undefined) {
+          logInfo("\nOperation cancelled.");
+          return;
+        }
+
+        if (!removeAnyway) {
+          componentsToRemove = componentsToRemove.filter(
+            (comp) => comp !== component
+          );
+        }
+      }
+
+      // Pull in the components that added and updated components are built from
+      const { dependencies } = includeComponentDependencies(
+        catalog,
+        [...selectedToAdd, ...componentsToUpdate],
+        existingComponents
+      );
+      const componentsToAdd = [...selectedToAdd, ...dependencies];
+
       // Show summary of changes
       if (
         componentsToAdd.length === 0 &&
         componentsToRemove.length === 0 &&
-        componentsToUpdate.length === 0
+        componentsToUpdate.length === 0 &&
+        !updateUtilsToo
       ) {
         logInfo("No changes to make. All components are up to date!");
+        if (refChanged) {
+          changes.write(configPath, serializeBogConfig(config));
+          if (options.dryRun) {
+            displayChanges(changes);
+          } else {
+            await applyChanges(changes);
+          }
+        }
         return;
       }
 
@@ -254,22 +359,27 @@ export const edit = new Command()
       if (componentsToUpdate.length > 0) {
         logInfo(`  Update: ${componentsToUpdate.join(", ")}`);
       }
+      if (updateUtilsToo) {
+        logInfo(`  Update: utility functions (${utils?.path})`);
+      }
       if (componentsToRemove.length > 0) {
         logInfo(`  Remove: ${componentsToRemove.join(", ")}`);
       }
       logInfo("");
 
-      // Confirm changes
-      const { confirmChanges } = await prompts({
-        type: "confirm",
-        name: "confirmChanges",
-        message: "Proceed with these changes?",
-        initial: true,
-      });
+      // Confirm changes (a dry run changes nothing, so there is nothing to confirm)
+      if (!options.dryRun) {
+        const { confirmChanges } = await prompts({
+          type: "confirm",
+          name: "confirmChanges",
+          message: "Proceed with these changes?",
+          initial: true,
+        });
 
-      if (!confirmChanges) {
-        logInfo("Changes cancelled.");
-        return;
+        if (!confirmChanges) {
+          logInfo("Changes cancelled.");
+          return;
+        }
       }
 
       // Execute changes
@@ -278,172 +388,172 @@ export const edit = new Command()
       const removedFiles: string[] = [];
 
       // Add new components
+      let downloaded = true;
       if (componentsToAdd.length > 0) {
-        await addComponents(
+        downloaded = await addComponents(
           componentsToAdd,
           absoluteInstallPath,
           config,
-          currentVersion
+          catalog,
+          changes
         );
+        markAsDependencies(config, dependencies);
         addedFiles.push(
           ...componentsToAdd.map(
             (comp: string) =>
-              `${installPath}/Bog${comp
-                .split("-")
-                .map(
-                  (part: string) => part.charAt(0).toUpperCase() + part.slice(1)
-                )
-                .join("")}/`
+              `${installPath}/${getComponentFolderName(catalog, comp)}/`
           )
         );
       }
 
       // Update existing components
       if (componentsToUpdate.length > 0) {
-        await addComponents(
-          componentsToUpdate,
-          absoluteInstallPath,
-          config,
-          currentVersion
-        );
+        downloaded =
+          (await addComponents(
+            componentsToUpdate,
+            absoluteInstallPath,
+            config,
+            catalog,
+            changes,
+            strategies
+          )) && downloaded;
         updatedFiles.push(
-          ...componentsToUpdate.map(
-            (comp: string) =>
-              `${installPath}/Bog${comp
-                .split("-")
-                .map(
-                  (part: string) => part.charAt(0).toUpperCase() + part.slice(1)
-                )
-                .join("")}/`
-          )
+          ...componentsToUpdate
+            .filter((comp: string) => strategies[comp] !== "skip")
+            .map(
+              (comp: string) =>
+                `${installPath}/${getComponentFolderName(catalog, comp)}/`
+            )
         );
       }
 
+      // Update the utility functions
+      if (utils && updateUtilsToo) {
+        try {
+          config["design-system"].utils = await updateUtils(
+            root,
+            utils,
+            config["design-system"].path,
+            registry,
+            catalog.ref,
+            catalog.version,
+            changes,
+            utilsStrategy
+          );
+          if (utilsStrategy !== "skip") {
+            updatedFiles.push(`${utils.path.replace(/\/$/, "")}/`);
+          }
+        } catch (error: any) {
+          logError(`Failed to download the utility functions: ${error.message}`);
+          downloaded = false;
+        }
+      }
+
       // Remove components
       if (componentsToRemove.length > 0) {
-        await removeComponents(componentsToRemove, absoluteInstallPath, config);
+        downloaded =
+          (await removeComponents(
+            componentsToRemove,
+            absoluteInstallPath,
+            config,
+            catalog,
+            changes
+          )) && downloaded;
         removedFiles.push(
           ...componentsToRemove.map(
             (comp: string) =>
-              `${installPath}/Bog${comp
-                .split("-")
-                .map(
-                  (part: string) => part.charAt(0).toUpperCase() + part.slice(1)
-                )
-                .join("")}/`
+              `${installPath}/${getComponentFolderName(catalog, comp)}/`
           )
         );
       }
 
-      // Show diffs
-      displayDiff(addedFiles, "added");
-      displayDiff(updatedFiles, "modified");
-      displayDiff(removedFiles, "removed");
-
-      // Write updated config
-      if (writeBogConfig(root, config)) {
-        logColored("\nSuccessfully completed component changes!", "GREEN");
-      } else {
-        logError(`Failed to update ${CONFIG_FILE_NAME} configuration`);
+      // Nothing has been written yet, so a failed download leaves the project untouched
+      if (!downloaded) {
+        logError(
+          "Some files could not be downloaded or removed. No changes were made."
+        );
+        process.exitCode = 1;
+        return;
       }
-    } catch (error: any) {
-      logError(`${error.message || "Unknown error occurred"}`);
-    }
-  });
-
-/**
- * Adds or updates components
- */
-async function addComponents(
-  components: string[],
-  installPath: string,
-  config: BogConfig,
-  currentVersion: string
-): Promise<void> {
-  // Create directory if it doesn't exist
-  if (!existsSync(installPath)) {
-    mkdirSync(installPath, { recursive: true });
-    logInfo(`Created directory: ${installPath}`);
-  }
-
-  logInfo(`Installing components to: ${installPath}`);
-
-  // Download and install components
-  for (const component of components) {
-    const folderName = `Bog${component
-      .split("-")
-      .map((part: string) => part.charAt(0).toUpperCase() + part.slice(1))
-      .join("")}`;
-    const destPath = path.join(installPath, folderName);
-
-    if (!fs.existsSync(destPath)) {
-      fs.mkdirSync(destPath, { recursive: true });
-    }
-
-    try {
-      const componentContent = await fetch(
-        `${BASE_URL}/refs/heads/production/src/components/${folderName}/${folderName}.tsx`
-      );
-      const styles = await fetch(
-        `${BASE_URL}/refs/heads/production/src/components/${folderName}/styles.module.css`
-      );
 
-      if (!componentContent.ok || !styles.ok) {
-        throw new Error(`Failed to fetch ${component} files`);
+      const unused = findUnusedDependencies(catalog, config);
+      if (unused.length > 0) {
+        logInfo(
+          `\nThese components were installed as dependencies and are no longer needed: ${unused.join(
+            ", "
+          )}`
+        );
       }
 
-      const componentText = await componentContent.text();
-      const stylesText = await styles.text();
+      // Write updated config
+      changes.write(configPath, serializeBogConfig(config));
+
+      const packageComponents = [
+        ...componentsToAdd,
+        ...componentsToUpdate,
+      ].filter((comp) => strategies[comp] !== "skip");
+
+      if (options.dryRun) {
+        displayChanges(changes);
+        displayComponentPackages(
+          root,
+          catalog,
+          config,
+          packageComponents,
+          componentsToRemove,
+          options
+        );
+        logColored("\nDry run complete. No files were written.", "YELLOW");
+        return;
+      }
 
-      fs.writeFileSync(path.join(destPath, `${folderName}.tsx`), componentText);
-      fs.writeFileSync(path.join(destPath, "styles.module.css"), stylesText);
+      // Swap every file into place at once, keeping the previous versions
+      // until the packages the components need are installed
+      const staged = await stageChanges(changes);
+      let packagesInstalled: boolean;
+      try {
+        packagesInstalled = await installComponentPackages(
+          root,
+          catalog,
+          packageComponents,
+          options
+        );
+      } catch (error) {
+        await staged.rollback();
+        throw error;
+      }
 
-      // Update config with new component/version
-      config["design-system"].components[component] = {
-        version: currentVersion,
-      };
+      if (!packagesInstalled) {
+        await staged.rollback();
+        logError(
+          `Restored the previous components and ${CONFIG_FILE_NAME} because the packages could not be installed.`
+        );
+        process.exitCode = 1;
+        return;
+      }
+      await staged.commit();
 
-      logInfo(`Added/updated ${component} (v${currentVersion})`);
-    } catch (error) {
-      logError(`Failed to install ${component}: ${error}`);
-    }
-  }
-}
+      // Show diffs
+      displayDiff(addedFiles, "added");
+      displayDiff(updatedFiles, "modified");
+      displayDiff(removedFiles, "removed");
 
-/**
- * Removes components
- */
-async function removeComponents(
-  components: string[],
-  installPath: string,
-  config: BogConfig
-): Promise<void> {
-  let removedCount = 0;
-
-  for (const component of components) {
-    const folderName = `Bog${component
-      .split("-")
-      .map((part: string) => part.charAt(0).toUpperCase() + part.slice(1))
-      .join("")}`;
-    const destPath = path.join(installPath, folderName);
+      // Offer to uninstall the packages removed components needed
+      await pruneComponentPackages(
+        root,
+        catalog,
+        config,
+        componentsToRemove,
+        options
+      );
 
-    try {
-      if (existsSync(destPath)) {
-        rmSync(destPath, { recursive: true, force: true });
-        logInfo(`Removed ${component}`);
-        removedCount++;
-      } else {
-        logWarning(
-          `Component ${component} directory not found, removing from config only`
-        );
+      logColored("\nSuccessfully completed component changes!", "GREEN");
+    } catch (error: any) {
+      if (error instanceof PromptCancelledError) {
+        logInfo("\nOperation cancelled.");
+        return;
       }
-
-      // Remove from config
-      delete config["design-system"].components[component];
-    } catch (error) {
-      logError(`Failed to remove ${component}: ${error}`);
+      logError(`${error.message || "Unknown error occurred"}`);
+      process.exitCode = 1;
     }
-  }
-
-  logInfo(`Successfully removed ${removedCount} component(s)!`);
-}
+  });
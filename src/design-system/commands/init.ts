@@ -1,470 +1,46 @@
 import { Command } from "commander";
-import { existsSync, readFileSync } from "fs";
-import { mkdir, writeFile } from "fs/promises";
-import prompts from "prompts";
-import { execSync } from "child_process";
+import { existsSync } from "fs";
 import path from "path";
-import ora from "ora";
 import {
   logInfo,
   logError,
   logWarning,
   logColored,
-  COLORS,
   findGitRoot,
 } from "../../utils.js";
-import { createBogConfig } from "../../config-utils.js";
-import { API_BASE_URL, CONFIG_FILE_NAME } from "../../config.js";
 import {
-  DEV_DEPENDENCIES,
-  DEPENDENCIES,
-  FONTS,
-  BASE_URL,
-} from "../../config.js";
-
-// installs dependencies
-async function installDependencies(root: string): Promise<boolean> {
-  // Show what dependencies will be installed
-  logInfo("\nDependencies to be installed:");
-  logInfo("Development dependencies:");
-  DEV_DEPENDENCIES.forEach((dep) => logColored(`  - ${dep}`, "BLUE"));
-  logInfo("Runtime dependencies:");
-  DEPENDENCIES.forEach((dep) => logColored(`  - ${dep}`, "BLUE"));
-  logInfo("");
-
-  const { packageManager } = await prompts({
-    type: "select",
-    name: "packageManager",
-    message: "Choose your preferred package manager",
-    choices: [
-      // the value is the command to run to install a package
-      { title: "npm", value: "npm install" },
-      { title: "yarn", value: "yarn add" },
-      { title: "pnpm", value: "pnpm add" },
-      { title: "bun", value: "bun add" },
-    ],
-  });
-
-  if (!packageManager) {
-    logWarning(
-      "Package manager selection was cancelled. Dependencies not installed."
-    );
-    return false;
-  }
-
-  const spinner = ora("Installing dependencies...").start();
-
-  try {
-    execSync(
-      `cd ${root} && ${packageManager} -D ${DEV_DEPENDENCIES.join(" ")}`
-    );
-    spinner.text = "installing dependencies...";
-    execSync(`cd ${root} && ${packageManager} ${DEPENDENCIES.join(" ")}`);
-    spinner.succeed("dependencies installed!");
-    return true;
-  } catch (error: any) {
-    spinner.fail("Failed to install dependencies");
-    logError(`Package manager command failed: ${error.message}`);
-    logWarning(
-      "Skipping dependency installation. You may need to install dependencies manually later."
-    );
-    return false;
-  }
-}
-
-//Tailwind setup
-async function setupTailwind(root: string): Promise<boolean> {
-  const { setupTailwind } = await prompts({
-    name: "setupTailwind",
-    type: "confirm",
-    message: "Do you want to set up Tailwind v4 for Next.js?",
-    initial: true,
-  });
-
-  if (setupTailwind) {
-    const spinner = ora("setting up Tailwind v4 for Next.js...").start();
-    await writeFile(
-      path.join(root, "postcss.config.mjs"),
-      `
-/** @type {import('postcss-load-config').Config} */
-const config = {
-  plugins: {
-    '@tailwindcss/postcss': {},
-  },
-};
-
-export default config;
-`.trim(),
-      "utf8"
-    );
-    spinner.succeed("Tailwind v4 setup complete!");
-  }
-
-  return setupTailwind;
-}
-
-async function setupUtils(root: string): Promise<boolean> {
-  const { setupUtils } = await prompts({
-    name: "setupUtils",
-    type: "confirm",
-    message: "Do you want to download the design system utility functions? (RECOMMENDED)",
-    initial: true,
-  });
-
-  if (!setupUtils) {
-    logWarning(
-      "Utils not installed. This may cause runtime errors with certain components."
-    );
-    return false;
-  }
-
-    const { utilsPath } = await prompts({
-    name: "utilsPath",
-    type: "text",
-    message: "Input the path where utilities should be installed",
-    initial: "src/utils/design-system",
-  });
-
-  if (!utilsPath) {
-    logInfo("\nOperation cancelled.");
-    return false;
-  }
-
-  if (setupUtils) {
-    const spinner = ora("downloading design system utility functions...").start();
-    const destDir = path.join(root, utilsPath);
-
-    try {
-      await mkdir(destDir, { recursive: true });
-
-    async function recursiveDownload(repoPath: string, destDir: string) {
-      const response = await fetch(
-        `${API_BASE_URL}/${repoPath}?ref=main`
-      );
-      
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch directory contents: ${repoPath}, status: ${response.status}`
-        );
-      }
-      
-      const files = (await response.json()) as Array<{
-          type: "file" | "dir";
-          name: string;
-          path: string;
-          download_url: string;
-        }>;
-
-        for (const file of files) {
-          if (file.type === "dir") {
-            const subDir = path.join(destDir, file.name);
-            await mkdir(subDir, { recursive: true });
-            await recursiveDownload(file.path, subDir);
-          } else if (file.type === "file") {
-            const fileResponse = await fetch(file.download_url);
-            if (!fileResponse.ok) {
-              throw new Error(
-                `ERROR: Failed to download file: ${file.name}, status: ${fileResponse.status}`
-              );
-            }
-            const fileData = await fileResponse.text();
-            await writeFile(path.join(destDir, file.name), fileData, "utf8");
-          }
-        }
-    }
-      await recursiveDownload(`/src/utils/design-system`, destDir);
-      spinner.succeed("design system utility functions downloaded!");
-      logInfo(`Utilities downloaded at: ${path.relative(root, destDir)}`);
-    } catch (error: any) {
-      spinner.fail("Failed to download design system utility functions");
-      logError(error?.message ?? String(error));
-      return false;
-    }
-      
-  }
-
-  return setupUtils;
-}
-
-//Setup Bits of Good sunset theme global css
-async function setupStyles(
-  root: string,
-  tailwindSetup: boolean
-): Promise<boolean> {
-  const { setupStyles } = await prompts({
-    name: "setupStyles",
-    type: "confirm",
-    message:
-      "Do you want to download the Bits of Good Sunset theme global css?",
-    initial: true,
-  });
-
-  if (!setupStyles) {
-    logWarning(
-      "Skipping the Bits of Good theme global css setup. Your project may not look like the Design System Website."
-    );
-    if (!tailwindSetup) {
-      logWarning(
-        'You will need to finish the Tailwind setup manually. Create a css file with `@import "tailwindcss"` in it, and make sure you import it into your src/app/layout.tsx or src/pages/_app.tsx.'
-      );
-    }
-    return false;
-  }
-
-  const { stylePath } = await prompts({
-    name: "stylePath",
-    type: "text",
-    message:
-      "Input the path relative to your project's root directory where the global stylesheet should be copied (e.g ./src/styles/globals.css)",
-    initial: "src/styles/globals.css",
-  });
-
-  const response = await fetch(
-    `${BASE_URL}/refs/heads/main/src/styles/globals.css`
-  );
-  const styles = await response.text();
-  let updatedStyles = styles;
-
-  await mkdir(path.dirname(path.join(root, stylePath)), {
-    recursive: true,
-  });
-
-  if (existsSync(path.join(root, stylePath))) {
-    const { overwrite } = await prompts({
-      name: "overwrite",
-      type: "confirm",
-      message: `The file ${stylePath} already exists. Do you want to overwrite it?`,
-      initial: true,
-    });
-
-    if (!overwrite) {
-      // we failed to install the stylesheet which is an unrecoverable error
-      logWarning(
-        "Skipping downloading the sunset theme as not allowed to overwrite the previous download."
-      );
-      return false;
-    }
-  }
-
-  // Offer theme customization only when we will proceed with writing the stylesheet
-  const { customizeTheme } = await prompts({
-    name: "customizeTheme",
-    type: "confirm",
-    message: "Do you want to customize the theme colors in globals.css?",
-    initial: true,
-  });
-
-  const isValidHex = (hex: string | undefined): boolean =>
-    !!hex && /^[0-9a-fA-F]{6}$/.test(hex);
-
-  if (customizeTheme) {
-    const defaults = {
-      brand: "fc5b43",
-      text: "22070b",
-      info: "325ce8",
-      warning: "8f6c1a",
-      success: "0a7b40",
-      error: "c73a3a",
-    } as const;
-
-    const responses = await prompts([
-      {
-        name: "brand",
-        type: "text",
-        message:
-          "Input 6 hex characters for your brand color. Do not include a '#'",
-        initial: defaults.brand,
-        validate: (val: string) =>
-          isValidHex(val) || "Enter exactly 6 hex characters (no '#')",
-      },
-      {
-        name: "text",
-        type: "text",
-        message:
-          "Input 6 hex characters for your text color. Do not include a '#'",
-        initial: defaults.text,
-        validate: (val: string) =>
-          isValidHex(val) || "Enter exactly 6 hex characters (no '#')",
-      },
-      {
-        name: "info",
-        type: "text",
-        message:
-          "Input 6 hex characters for informational color. Do not include a '#'",
-        initial: defaults.info,
-        validate: (val: string) =>
-          isValidHex(val) || "Enter exactly 6 hex characters (no '#')",
-      },
-      {
-        name: "warning",
-        type: "text",
-        message:
-          "Input 6 hex characters for warning color. Do not include a '#'",
-        initial: defaults.warning,
-        validate: (val: string) =>
-          isValidHex(val) || "Enter exactly 6 hex characters (no '#')",
-      },
-      {
-        name: "success",
-        type: "text",
-        message:
-          "Input 6 hex characters for success color. Do not include a '#'",
-        initial: defaults.success,
-        validate: (val: string) =>
-          isValidHex(val) || "Enter exactly 6 hex characters (no '#')",
-      },
-      {
-        name: "error",
-        type: "text",
-        message:
-          "Input 6 hex characters for error color. Do not include a '#'",
-        initial: defaults.error,
-        validate: (val: string) =>
-          isValidHex(val) || "Enter exactly 6 hex characters (no '#')",
-      },
-    ]);
-
-    if (
-      responses &&
-      isValidHex(responses.brand) &&
-      isValidHex(responses.text) &&
-      isValidHex(responses.info) &&
-      isValidHex(responses.warning) &&
-      isValidHex(responses.success) &&
-      isValidHex(responses.error)
-    ) {
-      const replacements: Array<{ from: string; to: string }> = [
-        { from: defaults.brand, to: responses.brand },
-        { from: defaults.text, to: responses.text },
-        { from: defaults.info, to: responses.info },
-        { from: defaults.warning, to: responses.warning },
-        { from: defaults.success, to: responses.success },
-        { from: defaults.error, to: responses.error },
-      ];
-
-      for (const { from, to } of replacements) {
-        const regex = new RegExp(from, "gi");
-        updatedStyles = updatedStyles.replace(regex, to);
-      }
-
-      logInfo("Customized theme colors in globals.css.");
-    } else {
-      logWarning(
-        "Theme customization skipped or invalid input provided; using default colors."
-      );
-    }
-  }
-
-  await writeFile(path.join(root, stylePath), updatedStyles, "utf8");
-  logInfo("Bits of Good theme and tailwindcss stylesheet created.");
-  logInfo(
-    "Make sure to import it into your src/app/layout.tsx or src/pages/_app.tsx"
-  );
-
-  // Handle adding css into project.
-  await handleNextJsIntegration(root, stylePath);
-  return true;
-}
-
-//Integrate style sheets.
-async function handleNextJsIntegration(
-  root: string,
-  stylePath: string
-): Promise<void> {
-  // if we're in a next.js app router project
-  if (existsSync(path.join(root, "src", "app", "layout.tsx"))) {
-    const contents = readFileSync(
-      path.join(root, "src", "app", "layout.tsx"),
-      "utf8"
-    );
-    const relativePath = path.relative(
-      path.join(root, "src", "app"),
-      path.join(root, stylePath)
-    );
-
-    // (somewhat naive) check if the stylesheet is already imported into the layout file
-    if (contents.includes(relativePath)) {
-      logInfo(
-        "It seems like the stylesheet you chose is already imported into your layout file correctly. Tailwind setup complete!"
-      );
-    } else {
-      const { updateLayout } = await prompts({
-        name: "updateLayout",
-        type: "confirm",
-        message: `It seems like the stylesheet you chose is not already imported into your layout file. Would you like to update it?`,
-        initial: true,
-      });
-
-      if (!updateLayout) {
-        logWarning(
-          "Make sure to import your css file into your layout file so the theme is applied correctly. Follow the instructions on the tailwind documentation: `https://tailwindcss.com/docs/installation/using-postcss`"
-        );
-      } else {
-        // add the stylesheet import to the top of the layout file
-        writeFile(
-          path.join(root, "src", "app", "layout.tsx"),
-          `import "${relativePath}";\n${contents}`,
-          "utf8"
-        );
-      }
-    }
-  } else {
-    // not next.js app router project, so the user has to manually import the stylesheet
-    logWarning(
-      "Not in next.js app router project, user will have to manually import the stylesheet."
-    );
-    logWarning(
-      "Make sure to import your css file into your code so the theme is applied correctly.\n" +
-        "Follow the instructions on the tailwind documentation: `https://tailwindcss.com/docs/installation/using-postcss`"
-    );
-  }
-}
-
-//Setting up fonts
-async function setupFonts(root: string): Promise<boolean> {
-  const { setupFonts } = await prompts({
-    name: "setupFonts",
-    type: "confirm",
-    message: "Do you want to set up the Bits of Good fonts?",
-    initial: true,
-  });
-
-  if (!setupFonts) {
-    logWarning(
-      "Skipping the Bits of Good fonts setup. Your project may not look like the Design System Website."
-    );
-    return false;
-  }
-
-  const { fontPath } = await prompts({
-    name: "fontPath",
-    type: "text",
-    message:
-      "Input your public directory relative to your project's root directory.",
-    initial: "./public/",
-  });
-
-  await mkdir(path.join(root, fontPath, "fonts"), { recursive: true });
-
-  await Promise.all(
-    FONTS.map(async (font: string) => {
-      const response = await fetch(`${BASE_URL}/main/public/fonts/${font}`);
-      if (!response.ok) {
-        throw new Error(
-          `ERROR: Failed to download font: ${font}, status: ${response.status}`
-        );
-      }
-      const fontData = await response.arrayBuffer();
-      await writeFile(
-        path.join(root, fontPath, "fonts", font),
-        Buffer.from(fontData),
-        "binary"
-      );
-    })
-  );
-
-  logInfo(`Bits of Good fonts downloaded successfully.\n Fonts: ${FONTS}`);
-  return true;
+  newBogConfig,
+  readBogConfig,
+  serializeBogConfig,
+  getDesignSystemRef,
+  pinDesignSystemRef,
+  getRegistry,
+  bogConfigExists,
+} from "../../config-utils.js";
+import { ask, PromptCancelledError } from "../../prompt-utils.js";
+import { CONFIG_FILE_NAME } from "../../config.js";
+import { toProjectRegistrySource } from "../../registry.js";
+import { findWorkspacePackage } from "../../workspaces.js";
+import {
+  createChangeSet,
+  displayChanges,
+  applyChanges,
+} from "../../file-changes.js";
+import {
+  SetupOptions,
+  installDependencies,
+  setupTailwind,
+  setupUtils,
+  setupStyles,
+  setupFonts,
+} from "../setup.js";
+import { renderFontFaces } from "../fonts.js";
+import { findNearestBogConfig } from "../project.js";
+
+interface InitOptions extends SetupOptions {
+  root?: string;
+  ref?: string;
+  registry?: string;
 }
 
 /**
@@ -529,18 +105,106 @@ function displaySetupSummary(
 export const init = new Command()
   .command("init")
   .description("Initialize a new project")
-  .action(async () => {
+  .option("-r, --root <path>", "project root directory")
+  .option("-y, --yes", "accept the default answer for every prompt")
+  .option(
+    "--registry <source>",
+    "where to download design system files from (github:<owner>/<name>, an HTTP URL or a directory)"
+  )
+  .option(
+    "--ref <ref>",
+    "design system branch, tag or commit SHA to download from"
+  )
+  .option(
+    "--pm <manager>",
+    "package manager to use (npm, yarn, pnpm, bun); detected from the lockfile by default"
+  )
+  .option("--verbose", "stream package manager output")
+  .option(
+    "--dry-run",
+    "show the files and packages init would change without writing anything"
+  )
+  .option("--no-install", "skip installing dependencies")
+  .option("--tailwind", "set up Tailwind v4")
+  .option("--no-tailwind", "skip the Tailwind v4 setup")
+  .option("--migrate-tailwind", "migrate a Tailwind v3 setup to v4")
+  .option("--no-migrate-tailwind", "leave a Tailwind v3 setup as it is")
+  .option("--utils", "download the design system utility functions")
+  .option("--no-utils", "skip downloading the utility functions")
+  .option("--utils-path <path>", "where to install the utility functions")
+  .option(
+    "--utils-alias <alias>",
+    "import alias for the utility functions (e.g. @/utils/design-system); relative imports are used by default"
+  )
+  .option("--styles", "download the Bits of Good theme stylesheet")
+  .option("--no-styles", "skip downloading the theme stylesheet")
+  .option("--styles-path <path>", "where to write the theme stylesheet")
+  .option("--overwrite", "overwrite an existing stylesheet")
+  .option("--no-overwrite", "never overwrite an existing stylesheet")
+  .option(
+    "--layout-import",
+    "import the stylesheet into the app's entry file (layout, _app, root or main)"
+  )
+  .option("--no-layout-import", "do not modify the entry file")
+  .option("--customize-theme", "customize the theme colors")
+  .option("--no-customize-theme", "keep the default theme colors")
+  .option("--brand <hex>", "brand color (6 hex characters, no '#')")
+  .option("--text <hex>", "text color")
+  .option("--info <hex>", "informational color")
+  .option("--warning <hex>", "warning color")
+  .option("--success <hex>", "success color")
+  .option("--error <hex>", "error color")
+  .option(
+    "--dark-mode <mode>",
+    "generate a dark palette switched on by the system setting (media), a .dark class (class) or a data-theme attribute (attribute), or none"
+  )
+  .option("--fonts", "download the Bits of Good fonts")
+  .option("--no-fonts", "skip downloading the fonts")
+  .option("--fonts-path <path>", "public directory to download the fonts into")
+  .option(
+    "--font-loader <loader>",
+    "load the fonts with a next/font/local module (next-font, Next.js only) or @font-face rules in the stylesheet (css)"
+  )
+  .action(async (options: InitOptions) => {
     try {
       // Auto-detect project root or ask user
       let root: string;
+      const workspace = findWorkspacePackage();
+      const nearestConfig = findNearestBogConfig();
 
-      // Check if bog.json exists in current directory (already initialized)
-      if (existsSync("./bog.json")) {
+      if (options.root) {
+        root = options.root;
+      } else if (existsSync("./bog.json")) {
+        // bog.json exists in current directory (already initialized)
         logInfo("Detected existing bog.json in current directory.");
         root = "./";
+      } else if (
+        workspace &&
+        (bogConfigExists(workspace.packageRoot) ||
+          (await ask(
+            {
+              type: "confirm",
+              message: `Initialize design system in workspace package ${path.relative(
+                workspace.workspaceRoot,
+                workspace.packageRoot
+              )}?`,
+              flag: "--root <path>",
+              initial: true,
+            },
+            undefined,
+            options
+          )))
+      ) {
+        // In a monorepo, each app that uses the design system has its own bog.json
+        logInfo(`Using workspace package: ${workspace.packageRoot}`);
+        root = workspace.packageRoot;
+      } else if (nearestConfig) {
+        logInfo(`Detected existing bog.json in ${nearestConfig}.`);
+        root = nearestConfig;
       } else {
         // Try to find git root
         const gitRoot = findGitRoot();
+        let useGitRoot = false;
 
         if (gitRoot) {
           // Found git repository, use it as the default
@@ -548,58 +212,38 @@ export const init = new Command()
 
           if (existsSync(path.join(gitRoot, "bog.json"))) {
             logInfo("Detected existing bog.json in git repository root.");
-            root = gitRoot;
+            useGitRoot = true;
           } else {
             // Ask user if they want to use git root
-            const { useGitRoot } = await prompts({
-              type: "confirm",
-              name: "useGitRoot",
-              message: `Initialize design system in git repository root (${gitRoot})?`,
-              initial: true,
-            });
-
-            if (useGitRoot === undefined) {
-              // Handle SIGINT (Ctrl+C) during prompt
-              logInfo("\nOperation cancelled.");
-              return;
-            }
-
-            if (useGitRoot) {
-              root = gitRoot;
-            } else {
-              // Ask for custom root
-              const { root: userRoot } = await prompts({
-                type: "text",
-                name: "root",
-                message: "Where is the root of your project?",
-                initial: "./",
-              });
-
-              if (!userRoot) {
-                logInfo("\nOperation cancelled.");
-                return;
-              }
-              root = userRoot;
-            }
+            useGitRoot = await ask(
+              {
+                type: "confirm",
+                message: `Initialize design system in git repository root (${gitRoot})?`,
+                flag: "--root <path>",
+                initial: true,
+              },
+              undefined,
+              options
+            );
           }
         } else {
-          // Not in a git repository, ask user for project root
           logWarning("Not in a git repository. Please specify project root.");
+        }
 
-          const { root: userRoot } = await prompts({
-            type: "text",
-            name: "root",
-            message: "Where is the root of your project?",
-            initial: "./",
-          });
-
-          // Handle SIGINT (Ctrl+C) during prompt
-          if (!userRoot) {
-            logInfo("\nOperation cancelled.");
-            return;
-          }
-
-          root = userRoot;
+        if (gitRoot && useGitRoot) {
+          root = gitRoot;
+        } else {
+          // Ask for custom root
+          root = await ask(
+            {
+              type: "text",
+              message: "Where is the root of your project?",
+              flag: "--root <path>",
+              initial: "./",
+            },
+            undefined,
+            options
+          );
         }
       }
 
@@ -607,66 +251,159 @@ export const init = new Command()
         logError("The root directory does not exist.");
         return;
       }
+      // Paths below are joined to the root and resolved against it again, so
+      // a relative root would be applied twice
+      root = path.resolve(root);
+
+      // Use the ref from --ref, or the one the project is already pinned to
+      const existingConfig = readBogConfig(root);
+      const ref = options.ref ?? getDesignSystemRef(existingConfig);
+      const registry = getRegistry(root, existingConfig, options.registry);
+      logInfo(`Using design system ref: ${ref} (${registry.source})`);
+
+      // Files are collected here and written once every step is done
+      const changes = createChangeSet(root);
 
       // Install dependencies
-      const dependenciesInstalled = await installDependencies(root);
+      const dependenciesInstalled = await installDependencies(root, options);
 
       // Setup Tailwind v4
-      const tailwindSetup = await setupTailwind(root);
+      const tailwindSetup = await setupTailwind(root, changes, options);
 
       // Setup utility functions
-      const utilsSetup = await setupUtils(root);
+      const utils = await setupUtils(
+        root,
+        changes,
+        registry,
+        ref,
+        options,
+        existingConfig?.["design-system"].path
+      );
 
-      // Setup theme stylesheet
-      const stylesSetup = await setupStyles(root, tailwindSetup);
+      // Setup fonts first, as the stylesheet may load them with @font-face rules
+      const fontsSetup = await setupFonts(
+        root,
+        changes,
+        registry,
+        ref,
+        options,
+        existingConfig?.["design-system"].fonts
+      );
 
-      // Setup fonts
-      const fontsSetup = await setupFonts(root);
+      // Setup theme stylesheet
+      const stylesSetup = await setupStyles(
+        root,
+        changes,
+        registry,
+        ref,
+        tailwindSetup,
+        options,
+        existingConfig?.["design-system"].styles,
+        existingConfig?.["design-system"].theme,
+        fontsSetup ?? undefined
+      );
+      if (fontsSetup?.loader === "css" && !stylesSetup) {
+        logWarning(
+          "The theme stylesheet was not written. Add these rules to your stylesheet to load the fonts:"
+        );
+        logInfo(renderFontFaces(fontsSetup));
+      }
 
       // Track created files
       const createdFiles: string[] = [];
 
       // Create bog.json config file
       const configPath = path.join(root, CONFIG_FILE_NAME);
-      if (existsSync(configPath)) {
+      // bog.json is read relative to the root, not the current directory
+      const registrySource =
+        options.registry && toProjectRegistrySource(options.registry, root);
+      if (existingConfig) {
+        logInfo(`${CONFIG_FILE_NAME} already exists, skipping creation...`);
+        const refChanged = pinDesignSystemRef(existingConfig, options.ref);
+        const registryChanged =
+          !!registrySource &&
+          registrySource !== existingConfig["design-system"].registry;
+        if (registryChanged) {
+          existingConfig["design-system"].registry = registrySource;
+        }
+        if (utils) {
+          existingConfig["design-system"].utils = utils;
+        }
+        if (stylesSetup) {
+          existingConfig["design-system"].styles = stylesSetup.styles;
+          existingConfig["design-system"].theme = stylesSetup.theme;
+        }
+        if (fontsSetup) {
+          existingConfig["design-system"].fonts = fontsSetup;
+        }
+        if (
+          refChanged ||
+          registryChanged ||
+          utils ||
+          stylesSetup ||
+          fontsSetup
+        ) {
+          changes.write(configPath, serializeBogConfig(existingConfig));
+        }
+      } else if (existsSync(configPath)) {
         logInfo(`${CONFIG_FILE_NAME} already exists, skipping creation...`);
       } else {
-        const configCreated = createBogConfig(root);
-        if (configCreated) {
-          logInfo(`Created ${CONFIG_FILE_NAME} configuration file`);
-          createdFiles.push(CONFIG_FILE_NAME);
-        } else {
-          logWarning(`Failed to create ${CONFIG_FILE_NAME} configuration file`);
+        const config = newBogConfig(undefined, ref, registrySource);
+        if (utils) {
+          config["design-system"].utils = utils;
+        }
+        if (stylesSetup) {
+          config["design-system"].styles = stylesSetup.styles;
+          config["design-system"].theme = stylesSetup.theme;
+        }
+        if (fontsSetup) {
+          config["design-system"].fonts = fontsSetup;
         }
+        changes.write(configPath, serializeBogConfig(config));
+        logInfo(`Created ${CONFIG_FILE_NAME} configuration file`);
+        createdFiles.push(CONFIG_FILE_NAME);
       }
 
+      if (options.dryRun) {
+        displayChanges(changes);
+        logColored("\nDry run complete. No files were written.", "YELLOW");
+        return;
+      }
+      await applyChanges(changes);
+
       // Add other created files based on setup
       if (tailwindSetup) {
         createdFiles.push("postcss.config.mjs");
       }
-      if (utilsSetup) {
-        createdFiles.push("src/utils/design-system/");
+      if (utils) {
+        createdFiles.push(`${utils.path.replace(/\/$/, "")}/`);
       }
       if (stylesSetup) {
-        // We don't know the exact path, but we can mention it
-        createdFiles.push("src/styles/globals.css");
+        createdFiles.push(stylesSetup.styles.path);
       }
       if (fontsSetup) {
-        createdFiles.push("public/fonts/");
+        createdFiles.push(`${fontsSetup.path}/`);
+        if (fontsSetup.module) {
+          createdFiles.push(fontsSetup.module);
+        }
       }
 
-
       // Display summary
       displaySetupSummary(
         dependenciesInstalled,
         tailwindSetup,
-        utilsSetup,
-        stylesSetup,
-        fontsSetup,
+        !!utils,
+        !!stylesSetup,
+        !!fontsSetup,
         createdFiles
       );
     } catch (e: any) {
+      if (e instanceof PromptCancelledError) {
+        logInfo("\nOperation cancelled.");
+        return;
+      }
       logError("Bits of Good design system init failed:");
-      logError(e);
+      logError(e instanceof Error ? e.message : e);
+      process.exitCode = 1;
     }
   });
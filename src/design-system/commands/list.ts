@@ -0,0 +1,253 @@
+import { Command } from "commander";
+import path from "path";
+import { logInfo, logError, logColored } from "../../utils.js";
+import { getDesignSystemRef, getRegistry } from "../../config-utils.js";
+import { BogConfig } from "../../bog-config.js";
+import { PromptCancelledError } from "../../prompt-utils.js";
+import { findMissingFiles, findModifiedFiles } from "../components.js";
+import {
+  Project,
+  loadProject,
+  loadWorkspaceProjects,
+  getWorkspaceLabel,
+} from "../project.js";
+import {
+  ComponentCatalog,
+  getCatalogEntry,
+  getComponentNames,
+  getLatestVersion,
+  loadCatalog,
+} from "../catalog.js";
+
+interface ListOptions {
+  root?: string;
+  ref?: string;
+  registry?: string;
+  json?: boolean;
+  outdated?: boolean;
+  allWorkspaces?: boolean;
+}
+
+/**
+ * The state of a component in the registry and in the project
+ */
+export interface ComponentStatus {
+  name: string;
+  description?: string;
+  // False for installed components that were removed from the registry
+  available: boolean;
+  installed: boolean;
+  installedVersion?: string;
+  latestVersion?: string;
+  outdated: boolean;
+  installedAsDependency: boolean;
+  missingFiles: string[];
+  modifiedFiles: string[];
+}
+
+/**
+ * Collects the status of every available and installed component
+ */
+function getComponentStatuses(
+  root: string,
+  config: BogConfig,
+  catalog: ComponentCatalog
+): ComponentStatus[] {
+  const installed = config["design-system"].components;
+  const installDir = path.join(root, config["design-system"].path);
+  const available = getComponentNames(catalog);
+  const names = [
+    ...available,
+    ...Object.keys(installed).filter((name) => !available.includes(name)),
+  ];
+
+  return names.map((name) => {
+    const entry = installed[name];
+    const isAvailable = available.includes(name);
+    const latestVersion = isAvailable
+      ? getLatestVersion(catalog, name)
+      : undefined;
+
+    return {
+      name,
+      description: isAvailable
+        ? getCatalogEntry(catalog, name).description
+        : undefined,
+      available: isAvailable,
+      installed: !!entry,
+      installedVersion: entry?.version,
+      latestVersion,
+      outdated: !!entry && isAvailable && entry.version !== latestVersion,
+      installedAsDependency: !!entry?.installedAsDependency,
+      missingFiles: entry
+        ? findMissingFiles(name, installDir, config, catalog)
+        : [],
+      modifiedFiles: entry
+        ? findModifiedFiles(name, installDir, config, catalog)
+        : [],
+    };
+  });
+}
+
+/**
+ * Prints installed components with their versions and file state, followed by
+ * the components that can still be added
+ */
+function displayStatuses(statuses: ComponentStatus[], outdated: boolean): void {
+  const installed = statuses.filter((status) => status.installed);
+  const notInstalled = statuses.filter((status) => !status.installed);
+  const width = Math.max(0, ...statuses.map((status) => status.name.length));
+
+  logInfo(`\nInstalled components${outdated ? " with updates" : ""}:`);
+  if (installed.length === 0) {
+    logInfo("  (none)");
+  }
+  for (const status of installed) {
+    const notes: string[] = [];
+    if (status.installedAsDependency) notes.push("dependency");
+    if (!status.available) notes.push("no longer in the registry");
+
+    const name = `  ${status.name.padEnd(width)}  v${status.installedVersion}`;
+    if (status.outdated) {
+      logColored(`${name} → v${status.latestVersion}`, "YELLOW");
+    } else {
+      logColored(name, "GREEN");
+    }
+    if (notes.length > 0) {
+      logInfo(`    (${notes.join(", ")})`);
+    }
+    status.missingFiles.forEach((file) =>
+      logColored(`    - ${file} (missing)`, "RED")
+    );
+    status.modifiedFiles.forEach((file) =>
+      logColored(`    ~ ${file} (modified)`, "YELLOW")
+    );
+  }
+
+  if (!outdated) {
+    logInfo("\nAvailable components:");
+    if (notInstalled.length === 0) {
+      logInfo("  (all installed)");
+    }
+    for (const status of notInstalled) {
+      logInfo(
+        `  ${status.name.padEnd(width)}  v${status.latestVersion}${
+          status.description ? `  ${status.description}` : ""
+        }`
+      );
+    }
+  }
+}
+
+/**
+ * Loads the catalog a project is compared against and the status of its components
+ */
+async function getProjectStatus(
+  { root, config }: Project,
+  options: ListOptions
+) {
+  const ref = options.ref ?? getDesignSystemRef(config);
+  const registry = getRegistry(root, config, options.registry);
+  const catalog = await loadCatalog(registry, ref);
+
+  let statuses = getComponentStatuses(root, config, catalog);
+  if (options.outdated) {
+    statuses = statuses.filter((status) => status.outdated);
+  }
+
+  return {
+    registry: registry.source,
+    ref,
+    version: catalog.version,
+    components: statuses,
+  };
+}
+
+export const list = new Command()
+  .command("list")
+  .alias("status")
+  .description(
+    "List available and installed design system components and their status"
+  )
+  .option("--json", "print the status as JSON")
+  .option(
+    "--outdated",
+    "only list components with updates, and exit with a non-zero code if there are any"
+  )
+  .option(
+    "--ref <ref>",
+    "design system branch, tag or commit SHA to compare against (defaults to the pinned ref)"
+  )
+  .option(
+    "--registry <source>",
+    "where to download design system files from (github:<owner>/<name>, an HTTP URL or a directory)"
+  )
+  .option(
+    "--all-workspaces",
+    "list the components of every workspace package that has a bog.json"
+  )
+  .option("-r, --root <path>", "project root directory")
+  .action(async (options: ListOptions) => {
+    try {
+      if (options.allWorkspaces) {
+        const projects = loadWorkspaceProjects(options);
+        if (!projects) {
+          process.exitCode = 1;
+          return;
+        }
+
+        const results = [];
+        for (const project of projects) {
+          const workspace = getWorkspaceLabel(project);
+          const status = await getProjectStatus(project, options);
+          results.push({ workspace, ...status });
+
+          if (!options.json) {
+            logColored(`\n${workspace}`, "CYAN");
+            logInfo(
+              `Design system v${status.version} (${status.registry}, ref: ${status.ref})`
+            );
+            displayStatuses(status.components, !!options.outdated);
+          }
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(results, null, 2));
+        }
+        if (
+          options.outdated &&
+          results.some((result) => result.components.length > 0)
+        ) {
+          process.exitCode = 1;
+        }
+        return;
+      }
+
+      const project = await loadProject({ ...options, quiet: options.json });
+      if (!project) {
+        process.exitCode = 1;
+        return;
+      }
+      const status = await getProjectStatus(project, options);
+
+      if (options.json) {
+        console.log(JSON.stringify(status, null, 2));
+      } else {
+        logInfo(
+          `Design system v${status.version} (${status.registry}, ref: ${status.ref})`
+        );
+        displayStatuses(status.components, !!options.outdated);
+      }
+
+      if (options.outdated && status.components.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error: any) {
+      if (error instanceof PromptCancelledError) {
+        logInfo("\nOperation cancelled.");
+        return;
+      }
+      logError(`${error.message || "Unknown error occurred"}`);
+      process.exitCode = 1;
+    }
+  });
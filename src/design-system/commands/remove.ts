@@ -0,0 +1,162 @@
+import { Command } from "commander";
+import path from "path";
+import { logInfo, logError, logWarning, logColored } from "../../utils.js";
+import {
+  serializeBogConfig,
+  getDesignSystemRef,
+  getRegistry,
+} from "../../config-utils.js";
+import { createChangeSet, applyChanges } from "../../file-changes.js";
+import { CONFIG_FILE_NAME } from "../../config.js";
+import { PromptCancelledError } from "../../prompt-utils.js";
+import {
+  removeComponents,
+  displayDiff,
+  getComponentFolderName,
+  validateComponentNames,
+  warnRequiredComponents,
+  findUnusedDependencies,
+} from "../components.js";
+import { loadProject } from "../project.js";
+import { loadCatalog, getCatalogEntry } from "../catalog.js";
+import { pruneComponentPackages } from "../packages.js";
+
+interface RemoveOptions {
+  root?: string;
+  pm?: string;
+  verbose?: boolean;
+  prunePackages?: boolean;
+  force?: boolean;
+}
+
+export const remove = new Command()
+  .command("remove")
+  .description("Remove design system components from your project")
+  .argument("<components...>", "names of the components to remove")
+  .option(
+    "-f, --force",
+    "remove components even if other installed components depend on them"
+  )
+  .option(
+    "--pm <manager>",
+    "package manager to use (npm, yarn, pnpm, bun); detected from the lockfile by default"
+  )
+  .option("--verbose", "stream package manager output")
+  .option(
+    "--prune-packages",
+    "uninstall packages no remaining component needs"
+  )
+  .option("--no-prune-packages", "keep packages no component needs")
+  .option("-r, --root <path>", "project root directory")
+  .action(async (names: string[], options: RemoveOptions) => {
+    try {
+      const project = await loadProject(options);
+      if (!project) {
+        process.exitCode = 1;
+        return;
+      }
+      const { root, config } = project;
+      const installed = config["design-system"].components;
+      const catalog = await loadCatalog(
+        getRegistry(root, config),
+        getDesignSystemRef(config)
+      );
+
+      // Installed components can be removed even if the registry no longer lists them
+      const components = validateComponentNames(names, {
+        ...catalog,
+        components: [
+          ...catalog.components,
+          ...Object.keys(installed).map((name) =>
+            getCatalogEntry(catalog, name)
+          ),
+        ],
+      });
+      if (!components) {
+        process.exitCode = 1;
+        return;
+      }
+
+      const componentsToRemove = components.filter((comp) => {
+        if (installed[comp]) return true;
+        logWarning(`${comp} is not installed, skipping.`);
+        return false;
+      });
+
+      if (componentsToRemove.length === 0) {
+        logInfo("No components to remove.");
+        return;
+      }
+
+      // Block removing components that remaining components are built from
+      const required = warnRequiredComponents(
+        catalog,
+        componentsToRemove,
+        Object.keys(installed).filter(
+          (comp) => !componentsToRemove.includes(comp)
+        )
+      );
+      if (required.size > 0 && !options.force) {
+        logError(
+          "Remove the components that depend on them too, or pass --force to remove them anyway."
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const installPath = config["design-system"].path;
+      const changes = createChangeSet(root);
+      const succeeded = await removeComponents(
+        componentsToRemove,
+        path.join(root, installPath),
+        config,
+        catalog,
+        changes
+      );
+      if (!succeeded) {
+        logError(
+          "No files were changed because some components could not be removed."
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      // Delete the files and update bog.json together
+      changes.write(CONFIG_FILE_NAME, serializeBogConfig(config));
+      await applyChanges(changes);
+
+      displayDiff(
+        componentsToRemove.map(
+          (comp) =>
+            `${installPath}/${getComponentFolderName(catalog, comp)}/`
+        ),
+        "removed"
+      );
+
+      const unused = findUnusedDependencies(catalog, config);
+      if (unused.length > 0) {
+        logInfo(
+          `\nThese components were installed as dependencies and are no longer needed: ${unused.join(
+            ", "
+          )}`
+        );
+        logInfo(`Remove them with 'bog design remove ${unused.join(" ")}'`);
+      }
+
+      await pruneComponentPackages(
+        root,
+        catalog,
+        config,
+        componentsToRemove,
+        options
+      );
+      logColored("\nSuccessfully removed components!", "GREEN");
+    } catch (error: any) {
+      if (error instanceof PromptCancelledError) {
+        logInfo("\nOperation cancelled.");
+        return;
+      }
+      logError(`${error.message || "Unknown error occurred"}`);
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,448 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { Command } from "commander";
+import {
+  logInfo,
+  logError,
+  logWarning,
+  logColored,
+  suggestClosest,
+} from "../../utils.js";
+import {
+  getDesignSystemRef,
+  getRegistry,
+  serializeBogConfig,
+} from "../../config-utils.js";
+import {
+  BogConfig,
+  DarkMode,
+  ThemeColorRole,
+  ThemeConfig,
+} from "../../bog-config.js";
+import {
+  CONFIG_FILE_NAME,
+  DARK_MODES,
+  DEFAULT_STYLES_PATH,
+  THEME_COLOR_ROLES,
+} from "../../config.js";
+import { AskOptions, PromptCancelledError } from "../../prompt-utils.js";
+import {
+  createChangeSet,
+  displayChanges,
+  applyChanges,
+} from "../../file-changes.js";
+import { loadProject } from "../project.js";
+import {
+  checkThemeContrast,
+  displayContrastReport,
+  displayThemeColors,
+  findBaseColors,
+  findPaletteShades,
+  getThemeColors,
+  isThemeColorRole,
+  normalizeHexColor,
+  writeThemeStylesheet,
+} from "../theme.js";
+import { parseThemeTokens, renderThemeTokens } from "../tokens.js";
+
+interface ThemeOptions extends AskOptions {
+  root?: string;
+  ref?: string;
+  registry?: string;
+  stylesPath?: string;
+  overwrite?: boolean;
+  dryRun?: boolean;
+  darkMode?: string;
+}
+
+/**
+ * Logs an error, or the cancellation of a prompt, and sets the exit code
+ */
+function handleError(error: any): void {
+  if (error instanceof PromptCancelledError) {
+    logInfo("\nOperation cancelled.");
+    return;
+  }
+  logError(`${error.message || "Unknown error occurred"}`);
+  process.exitCode = 1;
+}
+
+/**
+ * Reads the project's theme stylesheet
+ * @returns The stylesheet and its path, with an empty stylesheet if there is none
+ */
+function readStylesheet(
+  root: string,
+  config: BogConfig,
+  stylesPath?: string
+): { path: string; stylesheet: string } {
+  const relativePath =
+    stylesPath ?? config["design-system"].styles?.path ?? DEFAULT_STYLES_PATH;
+  const fullPath = path.join(root, relativePath);
+  return {
+    path: relativePath,
+    stylesheet: existsSync(fullPath) ? readFileSync(fullPath, "utf8") : "",
+  };
+}
+
+/**
+ * Updates the theme in bog.json and regenerates the stylesheet from it
+ * @param update - Changes the theme before the stylesheet is regenerated
+ */
+async function regenerateTheme(
+  options: ThemeOptions,
+  update: (theme: ThemeConfig) => void = () => {}
+): Promise<void> {
+  const darkMode = options.darkMode;
+  if (
+    darkMode !== undefined &&
+    darkMode !== "none" &&
+    !(DARK_MODES as readonly string[]).includes(darkMode)
+  ) {
+    logError(
+      `Invalid value "${darkMode}" for --dark-mode. Expected one of: none, ${DARK_MODES.join(", ")}`
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const project = await loadProject(options);
+  if (!project) {
+    process.exitCode = 1;
+    return;
+  }
+  const { root, config } = project;
+  const ref = options.ref ?? getDesignSystemRef(config);
+  const registry = getRegistry(root, config, options.registry);
+
+  const theme: ThemeConfig = {
+    ...config["design-system"].theme,
+    colors: getThemeColors(config),
+  };
+  update(theme);
+  if (darkMode === "none") {
+    delete theme.dark;
+  } else if (darkMode) {
+    theme.dark = darkMode as DarkMode;
+  }
+  const { colors } = theme;
+
+  const recorded = config["design-system"].styles;
+  const stylesPath =
+    options.stylesPath ?? recorded?.path ?? DEFAULT_STYLES_PATH;
+  const changes = createChangeSet(root);
+  const styles = await writeThemeStylesheet(
+    changes,
+    registry,
+    ref,
+    // A different --styles-path has no recorded hash to compare against
+    stylesPath === recorded?.path ? recorded : { path: stylesPath },
+    theme,
+    config["design-system"].fonts,
+    options
+  );
+  if (!styles) {
+    process.exitCode = 1;
+    return;
+  }
+
+  config["design-system"].styles = styles;
+  config["design-system"].theme = theme;
+  changes.write(CONFIG_FILE_NAME, serializeBogConfig(config));
+
+  if (options.dryRun) {
+    displayChanges(changes);
+    logColored("\nDry run complete. No files were written.", "YELLOW");
+    return;
+  }
+  await applyChanges(changes);
+
+  logColored(`\nRegenerated ${styles.path} with the theme:`, "GREEN");
+  displayThemeColors(
+    colors,
+    findPaletteShades(changes.readText(path.join(root, styles.path)) ?? "")
+  );
+}
+
+/**
+ * Sets or removes the shades set explicitly for a role, dropping the
+ * palettes field once no role has any
+ */
+function setPalette(
+  theme: ThemeConfig,
+  role: ThemeColorRole,
+  palette: Record<string, string> | undefined
+): void {
+  const palettes = { ...theme.palettes, [role]: palette };
+  if (!palette) {
+    delete palettes[role];
+  }
+
+  if (Object.keys(palettes).length > 0) {
+    theme.palettes = palettes;
+  } else {
+    delete theme.palettes;
+  }
+}
+
+/**
+ * Adds the options shared by the commands that regenerate the stylesheet
+ */
+function withRegenerateOptions(command: Command): Command {
+  return command
+    .option(
+      "--styles-path <path>",
+      "path of the theme stylesheet; read from bog.json by default"
+    )
+    .option(
+      "--overwrite",
+      "overwrite a stylesheet that was edited since it was generated"
+    )
+    .option("--no-overwrite", "never overwrite an edited stylesheet")
+    .option(
+      "--dark-mode <mode>",
+      "also generate a dark palette switched on by the system setting (media), a .dark class (class) or a data-theme attribute (attribute), or none to remove it; kept from bog.json by default"
+    )
+    .option("--dry-run", "show the changes without writing anything")
+    .option(
+      "--ref <ref>",
+      "design system branch, tag or commit SHA to download the stylesheet from"
+    )
+    .option(
+      "--registry <source>",
+      "where to download design system files from (github:<owner>/<name>, an HTTP URL or a directory)"
+    )
+    .option("-y, --yes", "accept the default answer for every prompt")
+    .option("-r, --root <path>", "project root directory");
+}
+
+const show = new Command()
+  .command("show")
+  .description(
+    "Show the theme colors recorded in bog.json, their palettes and their contrast"
+  )
+  .option("--json", "print the colors as JSON")
+  .option("-r, --root <path>", "project root directory")
+  .action(async (options: { root?: string; json?: boolean }) => {
+    try {
+      const project = await loadProject({ ...options, quiet: options.json });
+      if (!project) {
+        process.exitCode = 1;
+        return;
+      }
+
+      const colors = getThemeColors(project.config);
+      const { stylesheet } = readStylesheet(project.root, project.config);
+      // Shades are read from the stylesheet, as they are derived when it is generated
+      const shades = findPaletteShades(stylesheet);
+
+      if (options.json) {
+        const palettes = Object.fromEntries(
+          THEME_COLOR_ROLES.map((role) => [
+            role,
+            Object.fromEntries(
+              shades[role].map(({ shade, color }) => [shade, color])
+            ),
+          ])
+        );
+        console.log(JSON.stringify({ colors, palettes }, null, 2));
+        return;
+      }
+
+      if (!project.config["design-system"].theme) {
+        logInfo("No theme recorded in bog.json, showing the default colors.");
+      }
+      logInfo("Theme colors:");
+      displayThemeColors(colors, shades);
+      displayContrastReport(
+        checkThemeContrast(
+          { ...project.config["design-system"].theme, colors },
+          stylesheet
+        )
+      );
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+const set = withRegenerateOptions(
+  new Command()
+    .command("set")
+    .description("Change one theme color and regenerate the stylesheet")
+    .argument("<role>", `color role (${THEME_COLOR_ROLES.join(", ")})`)
+    .argument("<color>", "6 digit hex color, with or without '#'")
+).action(async (role: string, color: string, options: ThemeOptions) => {
+  try {
+    if (!isThemeColorRole(role)) {
+      const suggestion = suggestClosest(role, [...THEME_COLOR_ROLES]);
+      logError(
+        `Unknown color role "${role}".${
+          suggestion ? ` Did you mean "${suggestion}"?` : ""
+        } Roles: ${THEME_COLOR_ROLES.join(", ")}`
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const hex = normalizeHexColor(color);
+    if (!hex) {
+      logError(`"${color}" is not a 6 digit hex color (e.g. fc5b43).`);
+      process.exitCode = 1;
+      return;
+    }
+
+    await regenerateTheme(options, (theme) => {
+      theme.colors[role] = hex;
+      // Shades set for the old color would clash with the new one
+      if (theme.palettes?.[role]) {
+        setPalette(theme, role, undefined);
+        logInfo(
+          `Derived the ${role} palette from the new color instead of the shades that were set.`
+        );
+      }
+    });
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+const apply = withRegenerateOptions(
+  new Command()
+    .command("apply")
+    .description(
+      "Regenerate the stylesheet from the theme in bog.json (e.g. after editing it by hand)"
+    )
+).action(async (options: ThemeOptions) => {
+  try {
+    await regenerateTheme(options);
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+const importTokens = withRegenerateOptions(
+  new Command()
+    .command("import")
+    .description(
+      "Set the theme from a W3C Design Tokens file and regenerate the stylesheet"
+    )
+    .argument(
+      "<file>",
+      "design tokens JSON file, e.g. exported from Figma (color.brand, color.brand.100...)"
+    )
+).action(async (file: string, options: ThemeOptions) => {
+  try {
+    const tokensPath = path.resolve(file);
+    if (!existsSync(tokensPath)) {
+      logError(`${file} does not exist.`);
+      process.exitCode = 1;
+      return;
+    }
+
+    let tokensFile: unknown;
+    try {
+      tokensFile = JSON.parse(readFileSync(tokensPath, "utf8"));
+    } catch (error: any) {
+      logError(`Could not parse ${file}: ${error.message}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const tokens = parseThemeTokens(tokensFile);
+    const roles = THEME_COLOR_ROLES.filter(
+      (role) => tokens.colors[role] || tokens.palettes[role]
+    );
+    if (roles.length === 0) {
+      logError(
+        `No color token in ${file} matches a theme color. Name them after a role (${THEME_COLOR_ROLES.join(", ")}), e.g. color.brand or color.brand.100.`
+      );
+      process.exitCode = 1;
+      return;
+    }
+    if (tokens.skipped.length > 0) {
+      logWarning(
+        `Skipped tokens that match no theme color: ${tokens.skipped.join(", ")}`
+      );
+    }
+    logInfo(`Importing the ${roles.join(", ")} colors from ${file}.`);
+
+    await regenerateTheme(options, (theme) => {
+      Object.assign(theme.colors, tokens.colors);
+      // Imported roles take the file's shades, or derive them if it has none
+      for (const role of roles) {
+        setPalette(theme, role, tokens.palettes[role]);
+      }
+    });
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+const exportTokens = new Command()
+  .command("export")
+  .description(
+    "Write the theme of the project's stylesheet as a W3C Design Tokens file"
+  )
+  .argument("[file]", "file to write the tokens to; printed if omitted")
+  .option(
+    "--styles-path <path>",
+    "path of the theme stylesheet; read from bog.json by default"
+  )
+  .option("-r, --root <path>", "project root directory")
+  .action(
+    async (
+      file: string | undefined,
+      options: { root?: string; stylesPath?: string }
+    ) => {
+      try {
+        const project = await loadProject({ ...options, quiet: !file });
+        if (!project) {
+          process.exitCode = 1;
+          return;
+        }
+
+        const { path: stylesPath, stylesheet } = readStylesheet(
+          project.root,
+          project.config,
+          options.stylesPath
+        );
+        if (!stylesheet) {
+          logError(
+            `${stylesPath} does not exist. Run 'bog design theme apply' to generate it.`
+          );
+          process.exitCode = 1;
+          return;
+        }
+
+        // The stylesheet wins over bog.json in case it was edited by hand
+        const colors = {
+          ...getThemeColors(project.config),
+          ...findBaseColors(stylesheet),
+        };
+        const tokens = `${JSON.stringify(
+          renderThemeTokens(colors, findPaletteShades(stylesheet)),
+          null,
+          2
+        )}\n`;
+
+        if (!file) {
+          process.stdout.write(tokens);
+          return;
+        }
+        writeFileSync(path.resolve(file), tokens);
+        logColored(`Exported the theme of ${stylesPath} to ${file}`, "GREEN");
+      } catch (error) {
+        handleError(error);
+      }
+    }
+  );
+
+export const theme = new Command("theme")
+  .description(
+    "Show and change the theme colors of the design system stylesheet"
+  )
+  .addCommand(show, { isDefault: true })
+  .addCommand(set)
+  .addCommand(apply)
+  .addCommand(importTokens)
+  .addCommand(exportTokens);
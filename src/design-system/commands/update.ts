@@ -0,0 +1,321 @@
+import { Command } from "commander";
+import path from "path";
+import { logInfo, logError, logWarning, logColored } from "../../utils.js";
+import {
+  serializeBogConfig,
+  getDesignSystemRef,
+  pinDesignSystemRef,
+  getRegistry,
+} from "../../config-utils.js";
+import { createChangeSet, applyChanges } from "../../file-changes.js";
+import { CONFIG_FILE_NAME } from "../../config.js";
+import { PromptCancelledError } from "../../prompt-utils.js";
+import {
+  addComponents,
+  displayDiff,
+  getComponentFolderName,
+  validateComponentNames,
+  resolveLocalChanges,
+  LocalChangeStrategy,
+  includeComponentDependencies,
+  markAsDependencies,
+} from "../components.js";
+import {
+  Project,
+  loadProject,
+  loadWorkspaceProjects,
+  getWorkspaceLabel,
+} from "../project.js";
+import { loadCatalog, getLatestVersion } from "../catalog.js";
+import { installComponentPackages } from "../packages.js";
+import {
+  isUtilsOutdated,
+  resolveUtilsLocalChanges,
+  updateUtils,
+} from "../utilities.js";
+
+interface UpdateOptions {
+  root?: string;
+  pm?: string;
+  verbose?: boolean;
+  install: boolean;
+  ref?: string;
+  registry?: string;
+  onModified?: LocalChangeStrategy;
+  all?: boolean;
+  utils?: boolean;
+  force?: boolean;
+  allWorkspaces?: boolean;
+}
+
+/**
+ * Updates the components and utilities of one project
+ * @returns False if anything failed
+ */
+async function updateProject(
+  { root, config }: Project,
+  names: string[],
+  options: UpdateOptions
+): Promise<boolean> {
+  const installed = config["design-system"].components;
+  const refChanged = pinDesignSystemRef(config, options.ref);
+  const registry = getRegistry(root, config, options.registry);
+  const catalog = await loadCatalog(registry, getDesignSystemRef(config));
+  logInfo(`Current design system version: ${catalog.version}`);
+
+  const components = validateComponentNames(names, catalog);
+  if (!components) {
+    return false;
+  }
+
+  const requested = options.all
+    ? Object.keys(installed)
+    : components.filter((comp) => {
+        if (installed[comp]) return true;
+        logWarning(
+          `${comp} is not installed. Use 'bog design add ${comp}' to add it.`
+        );
+        return false;
+      });
+
+  const componentsToUpdate = requested.filter(
+    (comp) =>
+      options.force ||
+      installed[comp]?.version !== getLatestVersion(catalog, comp)
+  );
+
+  const utils = config["design-system"].utils;
+  const utilsOutdated = !!utils && isUtilsOutdated(utils, catalog.version);
+  const updateUtilsToo =
+    !!utils &&
+    (options.utils || options.all) &&
+    (options.force || utilsOutdated);
+  if (options.utils && !utils) {
+    logWarning(
+      `No utility functions recorded in ${CONFIG_FILE_NAME}. Run 'bog design init --utils' to install them.`
+    );
+  } else if (utilsOutdated && !updateUtilsToo) {
+    // Newer components may rely on helpers the installed utilities lack
+    logWarning(
+      `The utility functions are outdated (v${utils.version ?? "unknown"} → v${catalog.version}). Pass --utils to update them.`
+    );
+  }
+
+  const changes = createChangeSet(root);
+  if (componentsToUpdate.length === 0 && !updateUtilsToo) {
+    logInfo(
+      "No changes to make. All components and utilities are up to date!"
+    );
+    if (refChanged) {
+      changes.write(CONFIG_FILE_NAME, serializeBogConfig(config));
+      await applyChanges(changes);
+    }
+    return true;
+  }
+
+  componentsToUpdate.forEach((comp) => {
+    logColored(
+      `  - ${comp}: v${installed[comp]?.version} → v${getLatestVersion(
+        catalog,
+        comp
+      )}`,
+      "YELLOW"
+    );
+  });
+
+  if (updateUtilsToo) {
+    logColored(
+      `  - utils: v${utils.version ?? "unknown"} → v${catalog.version}`,
+      "YELLOW"
+    );
+  }
+
+  const installPath = config["design-system"].path;
+  const absoluteInstallPath = path.join(root, installPath);
+  const strategies = await resolveLocalChanges(
+    componentsToUpdate,
+    absoluteInstallPath,
+    config,
+    catalog,
+    options
+  );
+  const utilsStrategy = updateUtilsToo
+    ? await resolveUtilsLocalChanges(root, utils, options)
+    : "skip";
+
+  // Newer versions may be built from components that aren't installed yet
+  const { components: componentsToInstall, dependencies } =
+    includeComponentDependencies(
+      catalog,
+      componentsToUpdate,
+      Object.keys(installed)
+    );
+
+  let succeeded =
+    componentsToInstall.length === 0 ||
+    (await addComponents(
+      componentsToInstall,
+      absoluteInstallPath,
+      config,
+      catalog,
+      changes,
+      strategies
+    ));
+
+  if (updateUtilsToo) {
+    try {
+      config["design-system"].utils = await updateUtils(
+        root,
+        utils,
+        config["design-system"].path,
+        registry,
+        catalog.ref,
+        catalog.version,
+        changes,
+        utilsStrategy
+      );
+    } catch (error: any) {
+      logError(`Failed to update the utility functions: ${error.message}`);
+      succeeded = false;
+    }
+  }
+  if (!succeeded) {
+    logError("No files were changed because the update failed.");
+    return false;
+  }
+
+  // Write the files and bog.json together, so neither is left half done
+  markAsDependencies(config, dependencies);
+  changes.write(CONFIG_FILE_NAME, serializeBogConfig(config));
+  await applyChanges(changes);
+
+  displayDiff(
+    componentsToUpdate
+      .filter((comp) => strategies[comp] !== "skip")
+      .map(
+        (comp) =>
+          `${installPath}/${getComponentFolderName(catalog, comp)}/`
+      ),
+    "modified"
+  );
+  if (updateUtilsToo && utilsStrategy !== "skip") {
+    displayDiff([`${utils.path.replace(/\/$/, "")}/`], "modified");
+  }
+  displayDiff(
+    dependencies.map(
+      (comp) =>
+        `${installPath}/${getComponentFolderName(catalog, comp)}/`
+    ),
+    "added"
+  );
+
+  // Newer versions may need packages the project doesn't have yet
+  const packagesInstalled = await installComponentPackages(
+    root,
+    catalog,
+    componentsToInstall.filter((comp) => strategies[comp] !== "skip"),
+    options
+  );
+
+  if (!packagesInstalled) {
+    return false;
+  }
+  logColored(
+    `\nSuccessfully updated ${
+      componentsToUpdate.length > 0 ? "components" : "the utility functions"
+    }!`,
+    "GREEN"
+  );
+  return true;
+}
+
+export const update = new Command()
+  .command("update")
+  .description("Update installed design system components to the latest version")
+  .argument("[components...]", "names of the components to update")
+  .option(
+    "-a, --all",
+    "update every installed component and the utility functions"
+  )
+  .option("--utils", "update the design system utility functions")
+  .option(
+    "--all-workspaces",
+    "update every workspace package that has a bog.json"
+  )
+  .option("-f, --force", "re-download components that are already up to date")
+  .option(
+    "--on-modified <strategy>",
+    "how to handle locally modified components (overwrite, skip, backup, merge)"
+  )
+  .option(
+    "--ref <ref>",
+    "design system branch, tag or commit SHA to pin the project to"
+  )
+  .option(
+    "--registry <source>",
+    "where to download design system files from (github:<owner>/<name>, an HTTP URL or a directory)"
+  )
+  .option(
+    "--pm <manager>",
+    "package manager to use (npm, yarn, pnpm, bun); detected from the lockfile by default"
+  )
+  .option("--verbose", "stream package manager output")
+  .option("--no-install", "skip installing the packages components need")
+  .option("-r, --root <path>", "project root directory")
+  .action(async (names: string[], options: UpdateOptions) => {
+    try {
+      if (names.length === 0 && !options.all && !options.utils) {
+        logError(
+          "Specify the components to update, pass --utils to update the utility functions, or pass --all."
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      if (options.allWorkspaces) {
+        const projects = loadWorkspaceProjects(options);
+        if (!projects) {
+          process.exitCode = 1;
+          return;
+        }
+
+        const failed: string[] = [];
+        for (const project of projects) {
+          const workspace = getWorkspaceLabel(project);
+          logColored(`\nUpdating ${workspace}`, "CYAN");
+          try {
+            if (!(await updateProject(project, names, options))) {
+              failed.push(workspace);
+            }
+          } catch (error: any) {
+            // Keep updating the other workspaces unless the user cancelled
+            if (error instanceof PromptCancelledError) throw error;
+            logError(`${error.message || "Unknown error occurred"}`);
+            failed.push(workspace);
+          }
+        }
+
+        if (failed.length > 0) {
+          logError(`\nFailed to update: ${failed.join(", ")}`);
+          process.exitCode = 1;
+        }
+        return;
+      }
+
+      const project = await loadProject(options);
+      if (!project) {
+        process.exitCode = 1;
+        return;
+      }
+      if (!(await updateProject(project, names, options))) {
+        process.exitCode = 1;
+      }
+    } catch (error: any) {
+      if (error instanceof PromptCancelledError) {
+        logInfo("\nOperation cancelled.");
+        return;
+      }
+      logError(`${error.message || "Unknown error occurred"}`);
+      process.exitCode = 1;
+    }
+  });
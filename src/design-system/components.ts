@@ -0,0 +1,561 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { merge } from "node-diff3";
+import {
+  logInfo,
+  logError,
+  logWarning,
+  logColored,
+  suggestClosest,
+  hashContent,
+} from "../utils.js";
+import { BogConfig } from "../bog-config.js";
+import { UPSTREAM_COMPONENTS_PATH } from "../config.js";
+import { ChangeSet } from "../file-changes.js";
+import { ask, AskOptions } from "../prompt-utils.js";
+import {
+  ComponentCatalog,
+  getCatalogEntry,
+  getComponentNames,
+  getLatestVersion,
+  resolveComponentDependencies,
+  findRequiredComponents,
+  isContainedPath,
+} from "./catalog.js";
+import { ImportLocations, getImportLocations, rewriteImports } from "./imports.js";
+
+/**
+ * How to handle a component whose files were edited locally since install
+ * - overwrite: replace local changes with the new version
+ * - skip: keep the local files and the installed version
+ * - backup: save local files as `<file>.orig`, then overwrite
+ * - merge: three-way merge local changes with the new version
+ */
+export type LocalChangeStrategy = "overwrite" | "skip" | "backup" | "merge";
+
+export const LOCAL_CHANGE_STRATEGIES: Array<{
+  title: string;
+  value: LocalChangeStrategy;
+}> = [
+  { title: "Overwrite local changes", value: "overwrite" },
+  { title: "Skip this component", value: "skip" },
+  { title: "Keep a .orig backup, then overwrite", value: "backup" },
+  { title: "Three-way merge with the new version", value: "merge" },
+];
+
+/**
+ * Gets the folder name of a component (e.g. "radio-group" -> "BogRadioGroup")
+ */
+export function getComponentFolderName(
+  catalog: ComponentCatalog,
+  component: string
+): string {
+  return getCatalogEntry(catalog, component).folder;
+}
+
+/**
+ * Joins a folder or file name from the manifest or bog.json to a directory
+ * @throws If the name is absolute or leaves the directory
+ */
+function joinContained(directory: string, relativePath: string): string {
+  if (!isContainedPath(relativePath)) {
+    throw new Error(`"${relativePath}" is outside ${directory}`);
+  }
+  return path.join(directory, relativePath);
+}
+
+/**
+ * Resolves the folder of a component in the install directory, or one of
+ * its files if `fileName` is given
+ * @throws If the folder or file name leaves the component's folder
+ */
+export function resolveComponentPath(
+  installPath: string,
+  catalog: ComponentCatalog,
+  component: string,
+  fileName?: string
+): string {
+  const destPath = joinContained(
+    installPath,
+    getComponentFolderName(catalog, component)
+  );
+  return fileName === undefined ? destPath : joinContained(destPath, fileName);
+}
+
+/**
+ * Displays a diff-style list of created/modified files
+ */
+export function displayDiff(
+  files: string[],
+  type: "added" | "removed" | "modified" = "added"
+): void {
+  if (files.length === 0) return;
+
+  const prefix = type === "added" ? "+" : type === "removed" ? "-" : "~";
+  const color =
+    type === "added" ? "GREEN" : type === "removed" ? "RED" : "YELLOW";
+
+  logInfo(`\nFiles ${type}:`);
+  files.forEach((file) => {
+    logColored(`${prefix} ${file}`, color);
+  });
+}
+
+/**
+ * Checks component names against the components in the catalog
+ * Logs an error with a "did you mean" suggestion for every unknown name
+ * Returns the de-duplicated names, or null if any name is unknown
+ */
+export function validateComponentNames(
+  names: string[],
+  catalog: ComponentCatalog
+): string[] | null {
+  const available = getComponentNames(catalog);
+  let valid = true;
+
+  for (const name of names) {
+    if (available.includes(name)) continue;
+
+    valid = false;
+    const suggestion = suggestClosest(name, available);
+    logError(
+      `Unknown component "${name}".${
+        suggestion ? ` Did you mean "${suggestion}"?` : ""
+      }`
+    );
+  }
+
+  if (!valid) {
+    logInfo(`Available components: ${available.join(", ")}`);
+    return null;
+  }
+
+  return [...new Set(names)];
+}
+
+/**
+ * Adds the missing dependencies of the requested components to the install list,
+ * logging which component requires each one
+ * @param installed - The components that will already be installed
+ */
+export function includeComponentDependencies(
+  catalog: ComponentCatalog,
+  requested: string[],
+  installed: string[]
+): { components: string[]; dependencies: string[] } {
+  const missing = resolveComponentDependencies(catalog, requested, installed);
+
+  missing.forEach((requiredBy, dependency) => {
+    logInfo(`Also adding ${dependency} (required by ${requiredBy})`);
+  });
+
+  const dependencies = [...missing.keys()];
+  return { components: [...requested, ...dependencies], dependencies };
+}
+
+/**
+ * Marks installed components in bog.json as installed only as dependencies
+ */
+export function markAsDependencies(
+  config: BogConfig,
+  dependencies: string[]
+): void {
+  for (const dependency of dependencies) {
+    const entry = config["design-system"].components[dependency];
+    if (entry) {
+      entry.installedAsDependency = true;
+    }
+  }
+}
+
+/**
+ * Logs the components about to be removed that other components still need
+ * @param remaining - The components that will be installed after the change
+ * @returns Each required component, mapped to the components that require it
+ */
+export function warnRequiredComponents(
+  catalog: ComponentCatalog,
+  removing: string[],
+  remaining: string[]
+): Map<string, string[]> {
+  const required = findRequiredComponents(catalog, removing, remaining);
+
+  required.forEach((dependents, component) => {
+    logWarning(`${component} is required by ${dependents.join(", ")}`);
+  });
+
+  return required;
+}
+
+/**
+ * Finds components that were installed only as dependencies and are no longer
+ * needed by any installed component
+ */
+export function findUnusedDependencies(
+  catalog: ComponentCatalog,
+  config: BogConfig
+): string[] {
+  const installed = config["design-system"].components;
+  const names = Object.keys(installed);
+
+  return names.filter(
+    (component) =>
+      installed[component]?.installedAsDependency &&
+      findRequiredComponents(catalog, [component], names).size === 0
+  );
+}
+
+/**
+ * Downloads a component file from the catalog's registry, with its imports
+ * rewritten for the project's components and utils locations
+ * @param ref - The git ref (branch, tag or commit SHA) to download from
+ */
+async function fetchComponentFile(
+  catalog: ComponentCatalog,
+  component: string,
+  fileName: string,
+  locations: ImportLocations,
+  ref: string = catalog.ref
+): Promise<string> {
+  const folderName = getComponentFolderName(catalog, component);
+  const upstreamPath = `${UPSTREAM_COMPONENTS_PATH}/${folderName}/${fileName}`;
+  const source = await catalog.registry.readText(upstreamPath, ref);
+  return rewriteImports(
+    source,
+    upstreamPath,
+    `${locations.componentsPath}/${folderName}/${fileName}`,
+    locations
+  );
+}
+
+/**
+ * Finds the files of an installed component whose contents no longer match
+ * the hashes recorded in bog.json at install time
+ * Missing files and components installed without hashes are not reported
+ */
+export function findModifiedFiles(
+  component: string,
+  installPath: string,
+  config: BogConfig,
+  catalog: ComponentCatalog
+): string[] {
+  const recorded = config["design-system"].components[component]?.files;
+  if (!recorded) {
+    return [];
+  }
+
+  return Object.entries(recorded)
+    .filter(([fileName, hash]) => {
+      const filePath = resolveComponentPath(
+        installPath,
+        catalog,
+        component,
+        fileName
+      );
+      return (
+        existsSync(filePath) && hashContent(readFileSync(filePath)) !== hash
+      );
+    })
+    .map(([fileName]) => fileName);
+}
+
+/**
+ * Finds the files of an installed component that are missing on disk
+ * Uses the files recorded in bog.json, or the catalog's file list for
+ * components installed without hashes
+ */
+export function findMissingFiles(
+  component: string,
+  installPath: string,
+  config: BogConfig,
+  catalog: ComponentCatalog
+): string[] {
+  const recorded = config["design-system"].components[component]?.files;
+  const files = recorded
+    ? Object.keys(recorded)
+    : getCatalogEntry(catalog, component).files;
+
+  return files.filter(
+    (fileName) =>
+      !existsSync(resolveComponentPath(installPath, catalog, component, fileName))
+  );
+}
+
+/**
+ * Checks components about to be updated for local modifications and asks how
+ * to handle each modified component
+ * @returns The chosen strategy for every modified component
+ */
+export async function resolveLocalChanges(
+  components: string[],
+  installPath: string,
+  config: BogConfig,
+  catalog: ComponentCatalog,
+  options: AskOptions & { onModified?: LocalChangeStrategy } = {}
+): Promise<Record<string, LocalChangeStrategy>> {
+  const strategies: Record<string, LocalChangeStrategy> = {};
+
+  for (const component of components) {
+    if (!config["design-system"].components[component]?.files) {
+      logWarning(
+        `No file hashes recorded for ${component}, so local changes cannot be detected. They will be overwritten.`
+      );
+      continue;
+    }
+
+    const modifiedFiles = findModifiedFiles(
+      component,
+      installPath,
+      config,
+      catalog
+    );
+    if (modifiedFiles.length === 0) {
+      continue;
+    }
+
+    logWarning(`${component} has local changes:`);
+    modifiedFiles.forEach((file) => logColored(`  ~ ${file}`, "YELLOW"));
+
+    strategies[component] = await ask(
+      {
+        type: "select",
+        message: `How should local changes to ${component} be handled?`,
+        flag: "--on-modified <strategy>",
+        initial: "backup",
+        choices: LOCAL_CHANGE_STRATEGIES,
+      },
+      options.onModified,
+      options
+    );
+  }
+
+  return strategies;
+}
+
+/**
+ * What was installed from the design system, to merge local changes against
+ */
+export interface InstalledSource {
+  // Ref the files were downloaded from
+  ref?: string;
+  version?: string;
+  // sha256 hash of the file as it was installed
+  hash?: string;
+}
+
+/**
+ * Gets the ref files were installed from
+ * Entries recorded before refs were tracked fall back to the release tag,
+ * as design system releases are tagged `v<version>`
+ */
+function getInstalledRef({ ref, version }: InstalledSource): string | null {
+  return ref ?? (version ? `v${version}` : null);
+}
+
+/**
+ * Handles local changes to a file being updated, returning the contents to write
+ * - merge: three-way merges the local changes into the new upstream version,
+ *   using the file as it was installed as the common ancestor
+ * - backup: saves the local file as `<file>.orig`, also the fallback when
+ *   the installed file cannot be downloaded again
+ * The ancestor is downloaded from the installed ref and checked against the
+ * hash recorded at install time, since branches move and directory
+ * registries ignore refs. Merging against any other base would silently drop
+ * local changes or report bogus conflicts
+ * @param fetchBase - Downloads the file as it was at a ref
+ * @param label - What the file belongs to, for messages
+ */
+export async function updateModifiedFile(
+  changes: ChangeSet,
+  filePath: string,
+  upstream: string,
+  strategy: "backup" | "merge",
+  installed: InstalledSource,
+  fetchBase: (ref: string) => Promise<string>,
+  label: string
+): Promise<string> {
+  const fileName = path.basename(filePath);
+  const local = changes.readText(filePath) ?? "";
+  const installedRef = getInstalledRef(installed);
+
+  let base: string | null = null;
+  if (strategy === "merge") {
+    let problem: string | null = null;
+    if (!installedRef || !installed.hash) {
+      problem = `the installed version of ${label} is not recorded`;
+    } else {
+      try {
+        base = await fetchBase(installedRef);
+        if (hashContent(base) !== installed.hash) {
+          base = null;
+          problem = `${fileName} at ${installedRef} is not the file that was installed (the ref may have moved, or the registry does not keep old versions)`;
+        }
+      } catch (error: any) {
+        problem = `could not download ${fileName} at ${installedRef}: ${
+          error.message ?? error
+        }`;
+      }
+    }
+
+    if (problem) {
+      logError(
+        `Cannot merge local changes to ${fileName}: ${problem}. Keeping a backup instead.`
+      );
+    }
+  }
+
+  if (base !== null) {
+    const result = merge(local, base, upstream, {
+      stringSeparator: /\r?\n/,
+      label: { a: "local", o: installedRef!, b: "upstream" },
+    });
+    if (result.conflict) {
+      logWarning(
+        `Merge conflicts in ${fileName}. Resolve the conflict markers before using ${label}.`
+      );
+    }
+    return result.result.join("\n");
+  }
+
+  changes.write(`${filePath}.orig`, local);
+  logInfo(`Backed up local changes to ${fileName}.orig`);
+  return upstream;
+}
+
+/**
+ * Adds or updates components
+ * Imports in the downloaded files are rewritten for the locations in bog.json
+ * Components with a strategy in `strategies` had local changes, which are handled accordingly
+ * Files are written to `changes`, which the caller applies
+ * Returns false if any component failed to install
+ */
+export async function addComponents(
+  components: string[],
+  installPath: string,
+  config: BogConfig,
+  catalog: ComponentCatalog,
+  changes: ChangeSet,
+  strategies: Record<string, LocalChangeStrategy> = {}
+): Promise<boolean> {
+  let succeeded = true;
+  const locations = getImportLocations(changes.root, config);
+
+  logInfo(
+    `Installing components to: ${installPath} (${catalog.registry.source}, ref: ${catalog.ref})`
+  );
+
+  // Download and install components
+  for (const component of components) {
+    const strategy = strategies[component] ?? "overwrite";
+    if (strategy === "skip") {
+      logInfo(`Skipped ${component}, keeping local changes`);
+      continue;
+    }
+
+    const entry = getCatalogEntry(catalog, component);
+    const version = getLatestVersion(catalog, component);
+    const installed = config["design-system"].components[component];
+
+    try {
+      const files = entry.files;
+      // Resolve every destination first, so no file of a component whose
+      // manifest entry leaves the install directory is downloaded
+      const filePaths = files.map((fileName) =>
+        resolveComponentPath(installPath, catalog, component, fileName)
+      );
+      const modifiedFiles =
+        strategy === "overwrite"
+          ? []
+          : findModifiedFiles(component, installPath, config, catalog);
+      const contents = await Promise.all(
+        files.map((fileName) =>
+          fetchComponentFile(catalog, component, fileName, locations)
+        )
+      );
+      const hashes: { [fileName: string]: string } = {};
+
+      for (const [index, fileName] of files.entries()) {
+        const upstream = contents[index]!;
+        const filePath = filePaths[index]!;
+        let output = upstream;
+        hashes[fileName] = hashContent(upstream);
+
+        if (modifiedFiles.includes(fileName)) {
+          output = await updateModifiedFile(
+            changes,
+            filePath,
+            upstream,
+            strategy === "merge" ? "merge" : "backup",
+            {
+              ref: installed?.ref,
+              version: installed?.version,
+              hash: installed?.files?.[fileName],
+            },
+            (ref) =>
+              fetchComponentFile(catalog, component, fileName, locations, ref),
+            component
+          );
+        }
+
+        changes.write(filePath, output);
+      }
+
+      // Update config with new component/version
+      config["design-system"].components[component] = {
+        version,
+        ref: catalog.ref,
+        files: hashes,
+        ...(installed?.installedAsDependency
+          ? { installedAsDependency: true }
+          : {}),
+      };
+
+      logInfo(`Added/updated ${component} (v${version})`);
+    } catch (error) {
+      logError(`Failed to install ${component}: ${error}`);
+      succeeded = false;
+    }
+  }
+
+  return succeeded;
+}
+
+/**
+ * Removes components
+ * Deletions are written to `changes`, which the caller applies
+ * Returns false if any component failed to be removed
+ */
+export async function removeComponents(
+  components: string[],
+  installPath: string,
+  config: BogConfig,
+  catalog: ComponentCatalog,
+  changes: ChangeSet
+): Promise<boolean> {
+  let succeeded = true;
+  let removedCount = 0;
+
+  for (const component of components) {
+    try {
+      const destPath = resolveComponentPath(installPath, catalog, component);
+      if (changes.exists(destPath)) {
+        changes.remove(destPath);
+        logInfo(`Removed ${component}`);
+        removedCount++;
+      } else {
+        logWarning(
+          `Component ${component} directory not found, removing from config only`
+        );
+      }
+
+      // Remove from config
+      delete config["design-system"].components[component];
+    } catch (error) {
+      logError(`Failed to remove ${component}: ${error}`);
+      succeeded = false;
+    }
+  }
+
+  logInfo(`Successfully removed ${removedCount} component(s)!`);
+  return succeeded;
+}
@@ -0,0 +1,120 @@
+import path from "path";
+import { FontsConfig } from "../bog-config.js";
+import { FONT_FACES } from "../config.js";
+import { DetectedFramework } from "./frameworks.js";
+
+// @font-face format of each font file extension
+const FONT_FORMATS: Record<string, string> = {
+  ".woff2": "woff2",
+  ".woff": "woff",
+};
+
+/**
+ * Converts a relative path to the forward slashes URLs and imports use
+ */
+function toPosix(relativePath: string): string {
+  return relativePath.split(path.sep).join("/");
+}
+
+/**
+ * Gets the URL a directory inside the public directory is served from
+ * Frameworks serve the public directory at the site root whatever it is
+ * called, so public/fonts and static/fonts are both served from /fonts
+ * @param publicDir - The public directory, relative to the project root
+ * @param directory - A directory inside it, relative to the project root
+ */
+export function getPublicUrl(publicDir: string, directory: string): string {
+  return `/${toPosix(path.relative(publicDir, directory))}`;
+}
+
+/**
+ * Gets the name a next/font/local module exports a font as, e.g. "openSans"
+ * for --font-open-sans
+ */
+function getFontExportName(variable: string): string {
+  return variable
+    .replace(/^--font-/, "")
+    .replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Generates the @font-face rules that load the fonts from their URL
+ */
+export function renderFontFaces(fonts: FontsConfig): string {
+  const url = (fonts.url ?? "/fonts").replace(/\/$/, "");
+  const rules = FONT_FACES.map(
+    ({ family, weight, files }) => `@font-face {
+  font-family: "${family}";
+  src: ${files
+    .map(
+      (file) =>
+        `url("${url}/${file}") format("${FONT_FORMATS[path.extname(file)]}")`
+    )
+    .join(",\n    ")};
+  font-weight: ${weight};
+  font-style: normal;
+  font-display: swap;
+}`
+  );
+
+  return `/* Bits of Good fonts, generated by bog from the fonts in ${fonts.path}. */
+${rules.join("\n\n")}
+`;
+}
+
+/**
+ * Gets where the next/font/local module goes: next to the entry file, in the
+ * same language. Every file in a Pages Router pages/ directory is a route, so
+ * there it goes next to pages/ instead.
+ */
+export function getFontsModulePath({
+  framework,
+  entryFile,
+}: DetectedFramework): string {
+  const extension = /\.tsx?$/.test(entryFile) ? ".ts" : ".js";
+  const directory = path.dirname(entryFile);
+  return path.join(
+    framework === "next-pages" ? path.dirname(directory) : directory,
+    `fonts${extension}`
+  );
+}
+
+/**
+ * Generates a next/font/local module exporting every font with its CSS variable
+ * next/font resolves `src` relative to the module, so the paths point from it
+ * to the font files wherever they were downloaded
+ */
+export function renderFontsModule(fonts: FontsConfig, modulePath: string): string {
+  const fontExports = FONT_FACES.map(({ variable, weight, files }) => {
+    // woff2 is supported by every browser next/font targets
+    let src = toPosix(
+      path.relative(path.dirname(modulePath), path.join(fonts.path, files[0]!))
+    );
+    if (!src.startsWith(".")) {
+      src = `./${src}`;
+    }
+
+    return `export const ${getFontExportName(variable)} = localFont({
+  src: "${src}",
+  weight: "${weight}",
+  display: "swap",
+  variable: "${variable}",
+});`;
+  });
+
+  return `// Bits of Good fonts, generated by bog. Add the variables to your root element:
+// <html className={\`${FONT_FACES.map(
+    ({ variable }) => `\${${getFontExportName(variable)}.variable}`
+  ).join(" ")}\`}>
+import localFont from "next/font/local";
+
+${fontExports.join("\n\n")}
+`;
+}
+
+/**
+ * Gets the names a next/font/local module exports, for instructions
+ */
+export function getFontExportNames(): string[] {
+  return FONT_FACES.map(({ variable }) => getFontExportName(variable));
+}
@@ -0,0 +1,90 @@
+import path from "path";
+import { ChangeSet } from "../file-changes.js";
+import { readProjectPackages } from "./packages.js";
+
+/**
+ * Frameworks whose entry file the theme stylesheet can be imported into
+ */
+export type Framework = "next-app" | "next-pages" | "remix" | "vite";
+
+export const FRAMEWORK_NAMES: Record<Framework, string> = {
+  "next-app": "Next.js (App Router)",
+  "next-pages": "Next.js (Pages Router)",
+  remix: "Remix",
+  vite: "Vite",
+};
+
+// Entry files that load global styles, without an extension, in order of preference
+const ENTRY_FILES: Record<Framework, string[]> = {
+  "next-app": ["src/app/layout", "app/layout"],
+  "next-pages": ["src/pages/_app", "pages/_app"],
+  remix: ["app/root"],
+  vite: ["src/main", "src/index"],
+};
+
+const ENTRY_EXTENSIONS = [".tsx", ".jsx", ".ts", ".js"];
+
+// Packages that identify each framework in package.json. Remix is checked
+// before Vite because Remix projects also depend on vite.
+const FRAMEWORK_PACKAGES: Array<{ packages: string[]; frameworks: Framework[] }> =
+  [
+    { packages: ["next"], frameworks: ["next-app", "next-pages"] },
+    {
+      packages: ["@remix-run/react", "@remix-run/dev", "@react-router/dev"],
+      frameworks: ["remix"],
+    },
+    { packages: ["vite"], frameworks: ["vite"] },
+  ];
+
+/**
+ * The framework of a project and the entry file the stylesheet belongs in
+ */
+export interface DetectedFramework {
+  framework: Framework;
+  // Path relative to the project root
+  entryFile: string;
+}
+
+/**
+ * Finds the entry file of a framework in a project
+ * @returns The path relative to the project root, or null if there is none
+ */
+export function findEntryFile(
+  changes: ChangeSet,
+  framework: Framework
+): string | null {
+  for (const entry of ENTRY_FILES[framework]) {
+    for (const extension of ENTRY_EXTENSIONS) {
+      if (changes.exists(entry + extension)) {
+        return path.normalize(entry + extension);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Detects the project's framework from package.json, then from its file layout
+ * App Router layouts are preferred over Pages Router `_app` files
+ * @returns The framework and its entry file, or null if none was found
+ */
+export function detectFramework(changes: ChangeSet): DetectedFramework | null {
+  const packages = readProjectPackages(changes.root);
+  const fromPackages = FRAMEWORK_PACKAGES.filter((entry) =>
+    entry.packages.some((name) => packages.has(name))
+  ).flatMap((entry) => entry.frameworks);
+
+  // Fall back to the file layout when package.json names no framework (or
+  // the named framework's entry file is missing)
+  const candidates = [
+    ...new Set([...fromPackages, ...(Object.keys(ENTRY_FILES) as Framework[])]),
+  ];
+
+  for (const framework of candidates) {
+    const entryFile = findEntryFile(changes, framework);
+    if (entryFile) {
+      return { framework, entryFile };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,460 @@
+import { existsSync, readFileSync, statSync } from "fs";
+import { createRequire } from "module";
+import path from "path";
+import { parse } from "@babel/parser";
+import { parse as parseJsonc, ParseError } from "jsonc-parser";
+import { BogConfig, UtilsConfig } from "../bog-config.js";
+import {
+  DEFAULT_UTILS_PATH,
+  UPSTREAM_COMPONENTS_PATH,
+  UPSTREAM_IMPORT_ALIAS,
+  UPSTREAM_UTILS_PATH,
+} from "../config.js";
+import { isObject } from "../utils.js";
+
+// Directory the design system's "@/" alias points to
+const UPSTREAM_ALIAS_DIR = "src";
+
+// Files whose import statements are rewritten
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+// Matches the module specifier of `from "x"`, `import "x"`, `import("x")`
+// and `require("x")`
+const IMPORT_PATTERN =
+  /(\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)(["'])([^"'\n]+)\2/g;
+
+/**
+ * Where a project keeps the design system files that components import
+ * Paths are relative to the project root
+ */
+export interface ImportLocations {
+  componentsPath: string;
+  // Unset when the utils location is unknown, leaving utils imports as-is
+  utilsPath?: string;
+  // Import alias for the utils directory, relative imports are used without one
+  utilsAlias?: string;
+  // Whether the project's tsconfig.json or jsconfig.json maps the design
+  // system's "@/" alias to src/ like the design system does, so "@/" imports
+  // of files installed at their upstream location resolve unchanged
+  upstreamAlias: boolean;
+}
+
+/**
+ * Gets the import locations of a project from where its components and
+ * utilities are installed
+ */
+export function resolveImportLocations(
+  root: string,
+  componentsPath: string,
+  utils?: UtilsConfig
+): ImportLocations {
+  return {
+    componentsPath,
+    utilsPath: utils?.path,
+    utilsAlias: utils?.alias,
+    upstreamAlias: readPathAliases(root).some(
+      ({ prefix, dir }) =>
+        prefix === UPSTREAM_IMPORT_ALIAS && dir === UPSTREAM_ALIAS_DIR
+    ),
+  };
+}
+
+/**
+ * Gets the import locations recorded in bog.json
+ */
+export function getImportLocations(
+  root: string,
+  config: BogConfig
+): ImportLocations {
+  const { path: componentsPath, utils } = config["design-system"];
+  return resolveImportLocations(root, componentsPath, utils);
+}
+
+/**
+ * Converts a path to forward slashes without a leading "./" or trailing "/"
+ */
+function normalizePath(filePath: string): string {
+  return path.posix
+    .normalize(filePath.split(path.sep).join("/"))
+    .replace(/^\.\//, "")
+    .replace(/\/$/, "");
+}
+
+/**
+ * Gets the part of a repository path below a directory, or null if the path
+ * is not inside it
+ * @returns "" for the directory itself, otherwise the rest starting with "/"
+ */
+function pathBelow(filePath: string, dir: string): string | null {
+  if (filePath === dir) return "";
+  return filePath.startsWith(`${dir}/`) ? filePath.slice(dir.length) : null;
+}
+
+/**
+ * Builds a relative import specifier from one directory to a path
+ */
+function relativeSpecifier(fromDir: string, target: string): string {
+  const relative = path.posix.relative(fromDir, target);
+  return relative.startsWith(".") ? relative : `./${relative}`;
+}
+
+/**
+ * Rewrites one module specifier of a design system file for the project
+ * Package imports and imports of other files are returned unchanged
+ */
+function rewriteSpecifier(
+  specifier: string,
+  upstreamPath: string,
+  localPath: string,
+  locations: ImportLocations
+): string {
+  let target: string;
+  if (specifier.startsWith(UPSTREAM_IMPORT_ALIAS)) {
+    target = `${UPSTREAM_ALIAS_DIR}/${specifier.slice(
+      UPSTREAM_IMPORT_ALIAS.length
+    )}`;
+  } else if (specifier.startsWith(".")) {
+    target = path.posix.join(path.posix.dirname(upstreamPath), specifier);
+  } else {
+    return specifier;
+  }
+
+  const localDir = path.posix.dirname(localPath);
+  // An aliased import of a file at its upstream location only resolves if
+  // the project has the same alias
+  const keepAlias =
+    locations.upstreamAlias && specifier.startsWith(UPSTREAM_IMPORT_ALIAS);
+
+  const utilsRest = pathBelow(target, UPSTREAM_UTILS_PATH);
+  if (utilsRest !== null) {
+    if (locations.utilsAlias) {
+      return locations.utilsAlias + utilsRest;
+    }
+    if (locations.utilsPath === undefined) {
+      return specifier;
+    }
+    const utilsPath = normalizePath(locations.utilsPath);
+    return utilsPath === UPSTREAM_UTILS_PATH && keepAlias
+      ? specifier
+      : relativeSpecifier(localDir, utilsPath + utilsRest);
+  }
+
+  const componentRest = pathBelow(target, UPSTREAM_COMPONENTS_PATH);
+  if (componentRest !== null) {
+    const componentsPath = normalizePath(locations.componentsPath);
+    return componentsPath === UPSTREAM_COMPONENTS_PATH && keepAlias
+      ? specifier
+      : relativeSpecifier(localDir, componentsPath + componentRest);
+  }
+
+  return specifier;
+}
+
+/**
+ * Rewrites the imports of a downloaded design system file so utils imports
+ * point to the project's utils location and component imports point to the
+ * project's components directory
+ * @param upstreamPath - Path of the file in the design system repository
+ * @param localPath - Path the file is installed to, relative to the project root
+ */
+export function rewriteImports(
+  source: string,
+  upstreamPath: string,
+  localPath: string,
+  locations: ImportLocations
+): string {
+  if (!SOURCE_EXTENSIONS.includes(path.extname(upstreamPath))) {
+    return source;
+  }
+
+  const from = normalizePath(upstreamPath);
+  const to = normalizePath(localPath);
+  return source.replace(
+    IMPORT_PATTERN,
+    (match, prefix: string, quote: string, specifier: string) => {
+      const rewritten = rewriteSpecifier(specifier, from, to, locations);
+      return rewritten === specifier
+        ? match
+        : `${prefix}${quote}${rewritten}${quote}`;
+    }
+  );
+}
+
+/**
+ * A wildcard path alias from tsconfig.json or jsconfig.json
+ * (e.g. "@/*": ["./src/*"] is { prefix: "@/", dir: "src" })
+ */
+interface PathAlias {
+  prefix: string;
+  // Directory relative to the project root, "" for the root itself
+  dir: string;
+}
+
+/**
+ * The `paths` compiler option of a tsconfig.json or jsconfig.json, with the
+ * directories it resolves against as absolute paths
+ */
+interface CompilerPaths {
+  paths?: Record<string, unknown>;
+  // The `baseUrl` option, if set
+  baseUrl?: string;
+  // Directory of the config file that sets `paths`, used without a baseUrl
+  pathsDir?: string;
+}
+
+/**
+ * Resolves the `extends` of a tsconfig.json the way TypeScript does: a
+ * relative path (".json" optional) or a package (e.g. "@tsconfig/next")
+ * @returns The absolute path of the extended config, or null if not found
+ */
+function resolveExtendedConfig(
+  fromFile: string,
+  specifier: string
+): string | null {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    const resolved = path.resolve(path.dirname(fromFile), specifier);
+    return (
+      [resolved, `${resolved}.json`].find(
+        (candidate) => existsSync(candidate) && statSync(candidate).isFile()
+      ) ?? null
+    );
+  }
+
+  const require = createRequire(fromFile);
+  for (const candidate of [specifier, `${specifier}/tsconfig.json`]) {
+    try {
+      return require.resolve(candidate);
+    } catch {
+      // Try the package's tsconfig.json next
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the `paths` of a tsconfig.json or jsconfig.json, following `extends`
+ * Comments and trailing commas are allowed, as TypeScript allows them
+ * @returns The paths, or null if the file could not be read or parsed
+ */
+function readCompilerPaths(
+  configPath: string,
+  seen: Set<string> = new Set()
+): CompilerPaths | null {
+  if (seen.has(configPath)) return null;
+  seen.add(configPath);
+
+  let config: unknown;
+  try {
+    const errors: ParseError[] = [];
+    config = parseJsonc(readFileSync(configPath, "utf8"), errors, {
+      allowTrailingComma: true,
+    });
+    if (errors.length > 0) return null;
+  } catch {
+    return null;
+  }
+  if (!isObject(config)) return null;
+
+  // Options of the extended configs apply first, in order, then this file's
+  const extended =
+    typeof config.extends === "string"
+      ? [config.extends]
+      : Array.isArray(config.extends)
+        ? config.extends
+        : [];
+  let result: CompilerPaths = {};
+  for (const specifier of extended) {
+    if (typeof specifier !== "string") continue;
+    const extendedPath = resolveExtendedConfig(configPath, specifier);
+    const inherited = extendedPath && readCompilerPaths(extendedPath, seen);
+    if (inherited) {
+      result = { ...result, ...inherited };
+    }
+  }
+
+  const options = isObject(config.compilerOptions)
+    ? config.compilerOptions
+    : {};
+  const configDir = path.dirname(configPath);
+  if (typeof options.baseUrl === "string") {
+    result.baseUrl = path.resolve(configDir, options.baseUrl);
+  }
+  if (isObject(options.paths)) {
+    result.paths = options.paths;
+    result.pathsDir = configDir;
+  }
+  return result;
+}
+
+/**
+ * Reads the wildcard `paths` of the project's tsconfig.json or jsconfig.json
+ */
+function readPathAliases(root: string): PathAlias[] {
+  for (const fileName of ["tsconfig.json", "jsconfig.json"]) {
+    const configPath = path.join(root, fileName);
+    if (!existsSync(configPath)) continue;
+
+    const compilerPaths = readCompilerPaths(configPath);
+    if (!compilerPaths) continue;
+
+    const { paths = {}, baseUrl, pathsDir } = compilerPaths;
+    const baseDir = path.relative(root, baseUrl ?? pathsDir ?? root);
+    const aliases: PathAlias[] = [];
+    for (const [alias, targets] of Object.entries(paths)) {
+      if (!alias.endsWith("/*") || !Array.isArray(targets)) continue;
+
+      for (const target of targets) {
+        if (typeof target !== "string" || !target.endsWith("/*")) continue;
+        const dir = normalizePath(path.join(baseDir, target.slice(0, -2)));
+        aliases.push({ prefix: alias.slice(0, -1), dir: dir === "." ? "" : dir });
+      }
+    }
+    return aliases;
+  }
+
+  return [];
+}
+
+/**
+ * Suggests an import alias for a directory from the project's tsconfig.json
+ * or jsconfig.json `paths` (e.g. "@/*": ["./src/*"] suggests "@/utils" for
+ * src/utils)
+ * @returns The alias, or undefined if no wildcard path covers the directory
+ */
+export function suggestImportAlias(
+  root: string,
+  targetPath: string = DEFAULT_UTILS_PATH
+): string | undefined {
+  const target = normalizePath(targetPath);
+  for (const { prefix, dir } of readPathAliases(root)) {
+    const rest = dir === "" ? `/${target}` : pathBelow(target, dir);
+    if (rest) {
+      return prefix.slice(0, -1) + rest;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses a JavaScript or TypeScript file
+ * @returns The AST, or null if the file could not be parsed
+ */
+function parseSource(source: string, fileName: string) {
+  const extension = path.extname(fileName);
+  try {
+    return parse(source, {
+      sourceType: "module",
+      // Angle-bracket type assertions in .ts files conflict with JSX
+      plugins:
+        extension === ".ts"
+          ? ["typescript"]
+          : extension === ".tsx"
+            ? ["typescript", "jsx"]
+            : ["jsx"],
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves an import specifier to a path relative to the project root
+ * @param fromFile - The importing file, relative to the project root
+ * @returns The path, or null for package imports
+ */
+function resolveSpecifier(
+  specifier: string,
+  fromFile: string,
+  aliases: PathAlias[]
+): string | null {
+  if (specifier.startsWith(".")) {
+    return path.posix.join(path.posix.dirname(normalizePath(fromFile)), specifier);
+  }
+
+  const alias = aliases.find(({ prefix }) => specifier.startsWith(prefix));
+  return alias
+    ? path.posix.join(alias.dir, specifier.slice(alias.prefix.length))
+    : null;
+}
+
+/**
+ * Checks whether a file imports another project file, however the import is
+ * written (relative or through a tsconfig.json alias, with or without "./")
+ * @param filePath - The importing file, relative to the project root
+ * @param targetPath - The imported file, relative to the project root
+ * @returns Whether the file imports the target, or null if it could not be parsed
+ */
+export function hasImport(
+  root: string,
+  source: string,
+  filePath: string,
+  targetPath: string
+): boolean | null {
+  const ast = parseSource(source, filePath);
+  if (!ast) return null;
+
+  const aliases = readPathAliases(root);
+  const target = normalizePath(targetPath);
+  return ast.program.body.some(
+    (node) =>
+      node.type === "ImportDeclaration" &&
+      resolveSpecifier(node.source.value, filePath, aliases) === target
+  );
+}
+
+/**
+ * Adds a side-effect import of a project file (e.g. a stylesheet) to a file
+ * The import goes after the existing imports, or after any directives such
+ * as "use client" when there are none, and follows the file's quote and
+ * semicolon style. Files that already import through an alias import the
+ * target through the same alias when it covers it, otherwise the import is
+ * relative and starts with "./" or "../".
+ * @param filePath - The importing file, relative to the project root
+ * @param targetPath - The imported file, relative to the project root
+ * @returns The updated source, or null if the file could not be parsed
+ */
+export function addImport(
+  root: string,
+  source: string,
+  filePath: string,
+  targetPath: string
+): string | null {
+  const ast = parseSource(source, filePath);
+  if (!ast) return null;
+
+  const { program } = ast;
+  const imports = program.body.flatMap((node) =>
+    node.type === "ImportDeclaration" ? [node] : []
+  );
+  const aliases = readPathAliases(root);
+  const target = normalizePath(targetPath);
+
+  const usedAlias = aliases.find(
+    ({ prefix, dir }) =>
+      imports.some((node) => node.source.value.startsWith(prefix)) &&
+      (dir === "" || pathBelow(target, dir))
+  );
+  const specifier = usedAlias
+    ? usedAlias.prefix +
+      (usedAlias.dir === "" ? target : pathBelow(target, usedAlias.dir)!.slice(1))
+    : relativeSpecifier(path.posix.dirname(normalizePath(filePath)), target);
+
+  const lastImport = imports[imports.length - 1];
+  const quote = lastImport?.source.extra?.raw?.toString().startsWith("'")
+    ? "'"
+    : '"';
+  const semicolon =
+    lastImport && !source.slice(0, lastImport.end!).endsWith(";") ? "" : ";";
+  const statement = `import ${quote}${specifier}${quote}${semicolon}`;
+
+  const after =
+    lastImport ?? program.directives[program.directives.length - 1];
+  if (after) {
+    return `${source.slice(0, after.end!)}\n${statement}${source.slice(after.end!)}`;
+  }
+
+  // Keep a hashbang line first
+  const start = program.interpreter?.end ?? 0;
+  const separator = start > 0 ? "\n" : "";
+  return `${source.slice(0, start)}${separator}${statement}\n${source.slice(start).replace(/^\n/, "")}`;
+}
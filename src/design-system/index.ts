@@ -1,8 +1,20 @@
 import { Command } from "commander";
 import { init } from "./commands/init.js";
 import { edit } from "./commands/edit.js";
+import { add } from "./commands/add.js";
+import { remove } from "./commands/remove.js";
+import { update } from "./commands/update.js";
+import { doctor } from "./commands/doctor.js";
+import { list } from "./commands/list.js";
+import { theme } from "./commands/theme.js";
 
 export const designSystem = new Command("design")
   .description("Commands related to the Bits of Good Design System")
   .addCommand(init)
-  .addCommand(edit);
+  .addCommand(edit)
+  .addCommand(add)
+  .addCommand(remove)
+  .addCommand(update)
+  .addCommand(list)
+  .addCommand(theme)
+  .addCommand(doctor);
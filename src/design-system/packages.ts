@@ -0,0 +1,227 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { logInfo, logWarning, logColored } from "../utils.js";
+import { BogConfig } from "../bog-config.js";
+import { DEPENDENCIES } from "../config.js";
+import { ask } from "../prompt-utils.js";
+import {
+  PackageManagerOptions,
+  choosePackageManager,
+  installPackages,
+  uninstallPackages,
+} from "../package-manager.js";
+import { ComponentCatalog, getCatalogEntry } from "./catalog.js";
+
+/**
+ * Gets the package name from a package spec (e.g. "@radix-ui/themes@^3" -> "@radix-ui/themes")
+ */
+export function getPackageName(spec: string): string {
+  const versionIndex = spec.indexOf("@", 1);
+  return versionIndex === -1 ? spec : spec.slice(0, versionIndex);
+}
+
+/**
+ * Reads the names of every dependency and dev dependency in the project's package.json
+ */
+export function readProjectPackages(root: string): Set<string> {
+  const packageJsonPath = path.join(root, "package.json");
+  if (!existsSync(packageJsonPath)) {
+    return new Set();
+  }
+
+  try {
+    const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf8"));
+    return new Set([
+      ...Object.keys(packageJson.dependencies ?? {}),
+      ...Object.keys(packageJson.devDependencies ?? {}),
+    ]);
+  } catch (error) {
+    logWarning(`Failed to read package.json: ${error}`);
+    return new Set();
+  }
+}
+
+/**
+ * Gets the npm packages a component needs
+ * Components from a registry without a manifest are assumed to need every
+ * design system dependency when installing. Which of them a component really
+ * needs is unknown, so they are never pruned (see findUnusedPackages)
+ */
+export function getComponentPackages(
+  catalog: ComponentCatalog,
+  component: string
+): string[] {
+  if (!catalog.fromManifest) {
+    return DEPENDENCIES;
+  }
+  return getCatalogEntry(catalog, component).dependencies ?? [];
+}
+
+/**
+ * Finds the packages the given components need that aren't in package.json yet
+ */
+export function findMissingPackages(
+  root: string,
+  catalog: ComponentCatalog,
+  components: string[]
+): string[] {
+  const installed = readProjectPackages(root);
+  const specs = new Map<string, string>();
+
+  for (const component of components) {
+    for (const spec of getComponentPackages(catalog, component)) {
+      const name = getPackageName(spec);
+      if (!installed.has(name) && !specs.has(name)) {
+        specs.set(name, spec);
+      }
+    }
+  }
+
+  return [...specs.values()];
+}
+
+/**
+ * Finds the packages that removed components needed and that no component
+ * still installed needs
+ * Only packages declared by the removed components are considered, so the
+ * project's own dependencies are never reported
+ * Without a manifest the packages of each component are unknown, and the
+ * design system dependencies are also what `init` installs for the utilities
+ * and theme, so nothing is reported
+ */
+export function findUnusedPackages(
+  root: string,
+  catalog: ComponentCatalog,
+  config: BogConfig,
+  removedComponents: string[]
+): string[] {
+  if (!catalog.fromManifest) {
+    return [];
+  }
+
+  const installed = readProjectPackages(root);
+  const stillNeeded = new Set(
+    Object.keys(config["design-system"].components).flatMap((component) =>
+      getComponentPackages(catalog, component).map(getPackageName)
+    )
+  );
+
+  const unused = new Set(
+    removedComponents
+      .flatMap((component) => getComponentPackages(catalog, component))
+      .map(getPackageName)
+      .filter((name) => installed.has(name) && !stillNeeded.has(name))
+  );
+
+  return [...unused];
+}
+
+/**
+ * Installs the packages that newly added or updated components need
+ * Returns false if the installation failed
+ */
+export async function installComponentPackages(
+  root: string,
+  catalog: ComponentCatalog,
+  components: string[],
+  options: PackageManagerOptions & { install?: boolean }
+): Promise<boolean> {
+  const missing = findMissingPackages(root, catalog, components);
+  if (missing.length === 0) {
+    return true;
+  }
+
+  logInfo("\nPackages required by these components:");
+  missing.forEach((spec) => logColored(`  - ${spec}`, "BLUE"));
+
+  if (options.install === false) {
+    logWarning(
+      "Skipping package installation (--no-install). Install them manually before using these components."
+    );
+    return true;
+  }
+
+  const packageManager = await choosePackageManager(root, options);
+  const installed = await installPackages(
+    root,
+    missing,
+    packageManager,
+    options
+  );
+  if (!installed) {
+    logWarning("You may need to install these packages manually.");
+  }
+  return installed;
+}
+
+/**
+ * Lists the packages installComponentPackages and pruneComponentPackages
+ * would install and offer to uninstall, without prompting or running the
+ * package manager (for --dry-run)
+ */
+export function displayComponentPackages(
+  root: string,
+  catalog: ComponentCatalog,
+  config: BogConfig,
+  addedComponents: string[],
+  removedComponents: string[],
+  options: { install?: boolean; prunePackages?: boolean }
+): void {
+  const missing =
+    options.install === false
+      ? []
+      : findMissingPackages(root, catalog, addedComponents);
+  const unused =
+    options.prunePackages === false
+      ? []
+      : findUnusedPackages(root, catalog, config, removedComponents);
+
+  if (missing.length > 0) {
+    logInfo("\nPackages that would be installed:");
+    missing.forEach((spec) => logColored(`  - ${spec}`, "BLUE"));
+  }
+  if (unused.length > 0) {
+    logInfo(
+      options.prunePackages
+        ? "\nPackages that would be uninstalled:"
+        : "\nPackages no longer needed (uninstalled with --prune-packages):"
+    );
+    unused.forEach((name) => logColored(`  - ${name}`, "BLUE"));
+  }
+}
+
+/**
+ * Offers to uninstall the packages that removed components needed and no
+ * remaining component needs
+ */
+export async function pruneComponentPackages(
+  root: string,
+  catalog: ComponentCatalog,
+  config: BogConfig,
+  removedComponents: string[],
+  options: PackageManagerOptions & { prunePackages?: boolean }
+): Promise<void> {
+  const unused = findUnusedPackages(root, catalog, config, removedComponents);
+  if (unused.length === 0) {
+    return;
+  }
+
+  logInfo("\nPackages no longer needed by any installed component:");
+  unused.forEach((name) => logColored(`  - ${name}`, "BLUE"));
+
+  const prune = await ask(
+    {
+      type: "confirm",
+      message: "Uninstall these packages?",
+      flag: "--prune-packages/--no-prune-packages",
+      initial: false,
+    },
+    options.prunePackages,
+    options
+  );
+
+  if (prune) {
+    const packageManager = await choosePackageManager(root, options);
+    await uninstallPackages(root, unused, packageManager, options);
+  }
+}
@@ -0,0 +1,173 @@
+import path from "path";
+import { logInfo, logError, logWarning, findGitRoot } from "../utils.js";
+import {
+  bogConfigExists,
+  readBogConfig,
+  validateBogConfigExists,
+} from "../config-utils.js";
+import { BogConfig } from "../bog-config.js";
+import { CONFIG_FILE_NAME } from "../config.js";
+import { ask, AskOptions } from "../prompt-utils.js";
+import { findWorkspaceRoot, listWorkspacePackages } from "../workspaces.js";
+
+export interface ProjectRootOptions extends AskOptions {
+  root?: string;
+  // Don't log where bog.json was found (e.g. when printing JSON)
+  quiet?: boolean;
+}
+
+export interface Project {
+  root: string;
+  config: BogConfig;
+}
+
+/**
+ * Finds the nearest directory containing bog.json, starting from a directory
+ * and walking up to the filesystem root
+ * @returns The absolute path of the directory, or null if there is none
+ */
+export function findNearestBogConfig(
+  start: string = process.cwd()
+): string | null {
+  let directory = path.resolve(start);
+
+  while (true) {
+    if (bogConfigExists(directory)) {
+      return directory;
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Finds the root of an initialized project (the directory containing bog.json)
+ * Checks --root, then the current directory and its parents, and finally asks the user
+ * @returns The project root, or null if the chosen directory has no bog.json
+ */
+export async function resolveProjectRoot(
+  options: ProjectRootOptions = {}
+): Promise<string | null> {
+  if (options.root) {
+    return validateBogConfigExists(options.root) ? options.root : null;
+  }
+
+  // First, check if bog.json exists in current directory
+  if (bogConfigExists("./")) {
+    if (!options.quiet) logInfo("Detected bog.json in current directory");
+    return "./";
+  }
+
+  // Then the nearest parent directory with a bog.json, e.g. the app a
+  // workspace subdirectory belongs to
+  const nearest = findNearestBogConfig();
+  if (nearest) {
+    if (!options.quiet) logInfo(`Detected bog.json in ${nearest}`);
+    return nearest;
+  }
+
+  // Ask user for project root
+  const gitRoot = findGitRoot();
+  if (gitRoot) {
+    logWarning(
+      "Found git repository but no bog.json file. Please specify project root."
+    );
+  }
+
+  const userRoot = await ask(
+    {
+      type: "text",
+      message: "Where is the root of your project?",
+      flag: "--root <path>",
+      initial: gitRoot || "./",
+    },
+    undefined,
+    options
+  );
+
+  return validateBogConfigExists(userRoot) ? userRoot : null;
+}
+
+/**
+ * Resolves the project root and reads its bog.json
+ * @returns The root and config, or null if either could not be found
+ */
+export async function loadProject(
+  options: ProjectRootOptions = {}
+): Promise<Project | null> {
+  const root = await resolveProjectRoot(options);
+  if (!root) {
+    return null;
+  }
+
+  const config = readBogConfig(root);
+  if (!config) {
+    logError(`Failed to read ${CONFIG_FILE_NAME} configuration`);
+    return null;
+  }
+
+  // Paths are joined to the root and resolved against it again by ChangeSets,
+  // so a relative root would be applied twice
+  return { root: path.resolve(root), config };
+}
+
+/**
+ * Finds every package of the workspace the current directory (or --root) is
+ * in that has a bog.json, including the workspace root itself, and reads them
+ * @returns The projects, or null if there is no workspace or no initialized package
+ */
+export function loadWorkspaceProjects(
+  options: Pick<ProjectRootOptions, "root"> = {}
+): Project[] | null {
+  const workspaceRoot = findWorkspaceRoot(options.root ?? process.cwd());
+  if (!workspaceRoot) {
+    logError(
+      "No workspace found. --all-workspaces needs a package.json with a \"workspaces\" field or a pnpm-workspace.yaml."
+    );
+    return null;
+  }
+
+  const projects: Project[] = [];
+  for (const directory of [
+    workspaceRoot,
+    ...listWorkspacePackages(workspaceRoot),
+  ]) {
+    if (!bogConfigExists(directory)) continue;
+
+    const config = readBogConfig(directory);
+    if (!config) {
+      logError(
+        `Failed to read ${CONFIG_FILE_NAME} configuration in ${directory}`
+      );
+      return null;
+    }
+    projects.push({ root: directory, config });
+  }
+
+  if (projects.length === 0) {
+    logError(
+      `No workspace package in ${workspaceRoot} has a ${CONFIG_FILE_NAME}. Run 'bog design init' in the packages that use the design system.`
+    );
+    return null;
+  }
+
+  return projects;
+}
+
+/**
+ * Gets how to refer to a workspace project in output: its path relative to
+ * the workspace root, or "." for the root itself
+ */
+export function getWorkspaceLabel(project: Project): string {
+  const workspaceRoot = findWorkspaceRoot(project.root) ?? project.root;
+  return (
+    path
+      .relative(workspaceRoot, project.root)
+      .split(path.sep)
+      .join("/") || "."
+  );
+}
@@ -0,0 +1,709 @@
+import path from "path";
+import ora from "ora";
+import {
+  logInfo,
+  logError,
+  logWarning,
+  logColored,
+  hashContent,
+} from "../utils.js";
+import { ask, PromptCancelledError } from "../prompt-utils.js";
+import {
+  DEFAULT_THEME_COLORS,
+  THEME_COLOR_ROLES,
+  DARK_MODES,
+  DEFAULT_STYLES_PATH,
+  DEFAULT_UTILS_PATH,
+  DEV_DEPENDENCIES,
+  FONTS,
+  UPSTREAM_STYLES_PATH,
+} from "../config.js";
+import {
+  DarkMode,
+  FontLoader,
+  FontsConfig,
+  StylesConfig,
+  ThemeColorRole,
+  ThemeConfig,
+  UtilsConfig,
+  DEFAULT_CONFIG,
+} from "../bog-config.js";
+import { Registry } from "../registry.js";
+import { ChangeSet } from "../file-changes.js";
+import {
+  PackageManager,
+  PackageManagerOptions,
+  choosePackageManager,
+  installPackages,
+} from "../package-manager.js";
+import {
+  addImport,
+  hasImport,
+  resolveImportLocations,
+  suggestImportAlias,
+} from "./imports.js";
+import {
+  DARK_MODE_LABELS,
+  THEME_COLOR_LABELS,
+  checkThemeContrast,
+  displayContrastReport,
+  normalizeHexColor,
+  renderThemeStylesheet,
+} from "./theme.js";
+import {
+  TAILWIND_POSTCSS_PLUGIN,
+  TailwindV3Setup,
+  convertTailwindTheme,
+  detectTailwindV3,
+  findPostcssConfig,
+  mergePostcssConfig,
+  replaceTailwindDirectives,
+} from "./tailwind.js";
+import {
+  FRAMEWORK_NAMES,
+  DetectedFramework,
+  detectFramework,
+} from "./frameworks.js";
+import {
+  getFontExportNames,
+  getFontsModulePath,
+  getPublicUrl,
+  renderFontsModule,
+} from "./fonts.js";
+import { fetchUtilsFiles, hashUtilsFiles } from "./utilities.js";
+import { getRegistryVersion } from "./catalog.js";
+
+export interface SetupOptions extends PackageManagerOptions {
+  install?: boolean;
+  tailwind?: boolean;
+  utils?: boolean;
+  utilsPath?: string;
+  utilsAlias?: string;
+  styles?: boolean;
+  stylesPath?: string;
+  overwrite?: boolean;
+  layoutImport?: boolean;
+  migrateTailwind?: boolean;
+  customizeTheme?: boolean;
+  darkMode?: string;
+  brand?: string;
+  text?: string;
+  info?: string;
+  warning?: string;
+  success?: string;
+  error?: string;
+  fonts?: boolean;
+  fontsPath?: string;
+  fontLoader?: string;
+}
+
+// installs the dev dependencies the design system setup needs
+// (runtime dependencies are installed with the components that need them)
+export async function installDependencies(
+  root: string,
+  options: SetupOptions
+): Promise<boolean> {
+  if (options.install === false) {
+    logWarning("Skipping dependency installation (--no-install).");
+    return false;
+  }
+
+  // Show what dependencies will be installed
+  logInfo("\nDependencies to be installed:");
+  logInfo("Development dependencies:");
+  DEV_DEPENDENCIES.forEach((dep) => logColored(`  - ${dep}`, "BLUE"));
+  logInfo("");
+
+  let packageManager: PackageManager;
+  try {
+    packageManager = await choosePackageManager(root, options);
+  } catch (error) {
+    if (!(error instanceof PromptCancelledError)) throw error;
+    logWarning(
+      "Package manager selection was cancelled. Dependencies not installed."
+    );
+    return false;
+  }
+
+  const installed = await installPackages(
+    root,
+    DEV_DEPENDENCIES,
+    packageManager,
+    { ...options, dev: true }
+  );
+  if (!installed) {
+    logWarning(
+      "Skipping dependency installation. You may need to install dependencies manually later."
+    );
+  }
+  return installed;
+}
+
+//Tailwind setup
+// adds the Tailwind v4 PostCSS plugin to the project's PostCSS config (or
+// creates postcss.config.mjs), then offers to migrate a Tailwind v3 setup
+export async function setupTailwind(
+  root: string,
+  changes: ChangeSet,
+  options: SetupOptions
+): Promise<boolean> {
+  const setupTailwind = await ask(
+    {
+      type: "confirm",
+      message: "Do you want to set up Tailwind v4 for Next.js?",
+      flag: "--tailwind/--no-tailwind",
+      initial: true,
+    },
+    options.tailwind,
+    options
+  );
+
+  if (!setupTailwind) {
+    return false;
+  }
+
+  const configFile = findPostcssConfig(changes);
+  if (!configFile) {
+    changes.write(
+      path.join(root, "postcss.config.mjs"),
+      `
+/** @type {import('postcss-load-config').Config} */
+const config = {
+  plugins: {
+    '${TAILWIND_POSTCSS_PLUGIN}': {},
+  },
+};
+
+export default config;
+`.trim()
+    );
+    logInfo("Created postcss.config.mjs");
+  } else {
+    const contents = changes.readText(configFile) ?? "";
+    const merged = mergePostcssConfig(configFile, contents);
+    if (merged === null) {
+      logWarning(
+        `Could not update ${configFile}. Add '${TAILWIND_POSTCSS_PLUGIN}' to its plugins (and remove 'tailwindcss') to finish the Tailwind v4 setup.`
+      );
+      return false;
+    }
+    if (merged === contents) {
+      logInfo(`${configFile} already uses ${TAILWIND_POSTCSS_PLUGIN}`);
+    } else {
+      changes.write(configFile, merged);
+      logInfo(`Added ${TAILWIND_POSTCSS_PLUGIN} to ${configFile}`);
+    }
+  }
+
+  const v3 = detectTailwindV3(changes);
+  if (v3) {
+    await migrateTailwind(changes, v3, options);
+  }
+
+  logColored("Tailwind v4 setup complete!", "GREEN");
+  return true;
+}
+
+// migrates a Tailwind v3 setup: replaces the @tailwind directives and moves
+// the theme of tailwind.config.* into a v4 @theme block
+async function migrateTailwind(
+  changes: ChangeSet,
+  v3: TailwindV3Setup,
+  options: SetupOptions
+): Promise<void> {
+  logWarning(
+    `This project uses Tailwind v3 (${[v3.configFile, ...v3.stylesheets]
+      .filter(Boolean)
+      .join(", ")}).`
+  );
+
+  const migrate = await ask(
+    {
+      type: "confirm",
+      message:
+        "Do you want to migrate it to Tailwind v4? (replaces the @tailwind directives and moves the theme into CSS)",
+      flag: "--migrate-tailwind/--no-migrate-tailwind",
+      initial: true,
+    },
+    options.migrateTailwind,
+    options
+  );
+
+  if (!migrate) {
+    logWarning(
+      "Skipping the Tailwind v3 migration. Follow the upgrade guide to finish it: `https://tailwindcss.com/docs/upgrade-guide`"
+    );
+    return;
+  }
+
+  const { theme, skipped } = v3.configFile
+    ? convertTailwindTheme(changes.readText(v3.configFile) ?? "")
+    : { theme: null, skipped: [] };
+
+  for (const stylesheet of v3.stylesheets) {
+    // the theme goes into the first stylesheet only
+    const migrated = replaceTailwindDirectives(
+      changes.readText(stylesheet) ?? "",
+      stylesheet === v3.stylesheets[0] ? theme : null
+    );
+    changes.write(stylesheet, migrated);
+    logInfo(`Replaced the @tailwind directives in ${stylesheet}`);
+  }
+
+  if (theme && v3.stylesheets.length > 0) {
+    logInfo(`Moved the theme of ${v3.configFile} into ${v3.stylesheets[0]}`);
+  } else if (theme) {
+    logWarning(
+      "No stylesheet with @tailwind directives was found. Add this theme to the stylesheet that imports tailwindcss:"
+    );
+    logInfo(theme);
+  }
+  if (skipped.length > 0) {
+    logWarning(
+      `Could not migrate ${skipped.join(", ")}. Move them into the @theme block (or use @plugin/@utility) by hand.`
+    );
+  }
+  if (v3.configFile) {
+    logWarning(
+      `Tailwind v4 no longer reads ${v3.configFile}. Delete it once you have checked the migrated theme, or load it with @config.`
+    );
+  }
+}
+
+// downloads the utility functions components import
+// returns the utils location to record in bog.json, or null if skipped
+// componentsPath is where the project installs components, for imports of them
+export async function setupUtils(
+  root: string,
+  changes: ChangeSet,
+  registry: Registry,
+  ref: string,
+  options: SetupOptions,
+  componentsPath: string = DEFAULT_CONFIG["design-system"].path
+): Promise<UtilsConfig | null> {
+  const setupUtils = await ask(
+    {
+      type: "confirm",
+      message:
+        "Do you want to download the design system utility functions? (RECOMMENDED)",
+      flag: "--utils/--no-utils",
+      initial: true,
+    },
+    options.utils ?? (options.utilsPath ? true : undefined),
+    options
+  );
+
+  if (!setupUtils) {
+    logWarning(
+      "Utils not installed. This may cause runtime errors with certain components."
+    );
+    return null;
+  }
+
+  const utilsPath = await ask(
+    {
+      type: "text",
+      message: "Input the path where utilities should be installed",
+      flag: "--utils-path <path>",
+      initial: DEFAULT_UTILS_PATH,
+    },
+    options.utilsPath,
+    options
+  );
+
+  if (!utilsPath) {
+    logInfo("\nOperation cancelled.");
+    return null;
+  }
+
+  // Components import the utilities through this alias instead of relative paths
+  const utilsAlias = await ask(
+    {
+      type: "text",
+      message:
+        "Import alias for the utilities, e.g. @/utils/design-system (leave empty for relative imports)",
+      flag: "--utils-alias <alias>",
+      initial: suggestImportAlias(root, utilsPath) ?? "",
+    },
+    options.utilsAlias,
+    options
+  );
+  const utils: UtilsConfig = {
+    path: utilsPath,
+    ...(utilsAlias ? { alias: utilsAlias.replace(/\/$/, "") } : {}),
+  };
+
+  const spinner = ora("downloading design system utility functions...").start();
+
+  try {
+    const [files, version] = await Promise.all([
+      fetchUtilsFiles(
+        registry,
+        ref,
+        utils,
+        resolveImportLocations(root, componentsPath, utils)
+      ),
+      getRegistryVersion(registry, ref),
+    ]);
+    for (const [filePath, contents] of files) {
+      changes.write(path.join(root, utilsPath, filePath), contents);
+    }
+    spinner.succeed("design system utility functions downloaded!");
+    logInfo(`Utilities downloaded at: ${utilsPath}`);
+
+    // Recorded so edit and update can tell when they are outdated or modified
+    return { ...utils, version, ref, files: hashUtilsFiles(files) };
+  } catch (error: any) {
+    spinner.fail("Failed to download design system utility functions");
+    logError(error?.message ?? String(error));
+    return null;
+  }
+}
+
+//Setup Bits of Good sunset theme global css
+// returns the stylesheet location and theme to record in bog.json, or null if skipped
+// recorded, recordedTheme - the stylesheet location and theme from a previous run
+// fonts - the fonts to write @font-face rules for, if they are loaded from CSS
+export async function setupStyles(
+  root: string,
+  changes: ChangeSet,
+  registry: Registry,
+  ref: string,
+  tailwindSetup: boolean,
+  options: SetupOptions,
+  recorded?: StylesConfig,
+  recordedTheme?: ThemeConfig,
+  fonts?: FontsConfig
+): Promise<{ styles: StylesConfig; theme: ThemeConfig } | null> {
+  const setupStyles = await ask(
+    {
+      type: "confirm",
+      message:
+        "Do you want to download the Bits of Good Sunset theme global css?",
+      flag: "--styles/--no-styles",
+      initial: true,
+    },
+    options.styles ?? (options.stylesPath ? true : undefined),
+    options
+  );
+
+  if (!setupStyles) {
+    logWarning(
+      "Skipping the Bits of Good theme global css setup. Your project may not look like the Design System Website."
+    );
+    if (!tailwindSetup) {
+      logWarning(
+        'You will need to finish the Tailwind setup manually. Create a css file with `@import "tailwindcss"` in it, and make sure you import it into your app\'s entry file (e.g. src/app/layout.tsx, pages/_app.tsx or src/main.tsx).'
+      );
+    }
+    return null;
+  }
+
+  const stylePath = await ask(
+    {
+      type: "text",
+      message:
+        "Input the path relative to your project's root directory where the global stylesheet should be copied (e.g ./src/styles/globals.css)",
+      flag: "--styles-path <path>",
+      initial: recorded?.path ?? DEFAULT_STYLES_PATH,
+    },
+    options.stylesPath,
+    options
+  );
+
+  const upstream = await registry.readText(UPSTREAM_STYLES_PATH, ref);
+
+  if (changes.exists(path.join(root, stylePath))) {
+    const overwrite = await ask(
+      {
+        type: "confirm",
+        message: `The file ${stylePath} already exists. Do you want to overwrite it?`,
+        flag: "--overwrite/--no-overwrite",
+        initial: true,
+      },
+      options.overwrite,
+      options
+    );
+
+    if (!overwrite) {
+      // we failed to install the stylesheet which is an unrecoverable error
+      logWarning(
+        "Skipping downloading the sunset theme as not allowed to overwrite the previous download."
+      );
+      return null;
+    }
+  }
+
+  const colors = { ...DEFAULT_THEME_COLORS, ...recordedTheme?.colors };
+
+  // Offer theme customization only when we will proceed with writing the stylesheet
+  const customizeTheme = await ask(
+    {
+      type: "confirm",
+      message: "Do you want to customize the theme colors in globals.css?",
+      flag: "--customize-theme/--no-customize-theme",
+      initial: true,
+    },
+    options.customizeTheme ??
+      (THEME_COLOR_ROLES.some((role) => options[role] !== undefined)
+        ? true
+        : undefined),
+    options
+  );
+
+  if (customizeTheme) {
+    for (const role of THEME_COLOR_ROLES) {
+      const color = await ask(
+        {
+          type: "text",
+          message: `Input 6 hex characters for ${THEME_COLOR_LABELS[role]}. The '#' is optional`,
+          flag: `--${role} <hex>`,
+          initial: colors[role].slice(1),
+          validate: (val: string) =>
+            normalizeHexColor(val) !== null || "Enter exactly 6 hex characters",
+        },
+        options[role],
+        options
+      );
+      const normalized = normalizeHexColor(color);
+      if (normalized === null) {
+        throw new Error(`Invalid value "${color}" for --${role}`);
+      }
+      colors[role] = normalized;
+    }
+
+    logInfo("Customized theme colors in globals.css.");
+  }
+
+  // Shades set for a role (e.g. imported from design tokens) are kept unless
+  // its color changed
+  const palettes = Object.fromEntries(
+    Object.entries(recordedTheme?.palettes ?? {}).filter(
+      ([role]) =>
+        colors[role as ThemeColorRole] ===
+        recordedTheme?.colors[role as ThemeColorRole]
+    )
+  );
+  const theme: ThemeConfig =
+    Object.keys(palettes).length > 0 ? { colors, palettes } : { colors };
+
+  const darkMode = await ask<DarkMode | "none">(
+    {
+      type: "select",
+      message: "Do you want a dark palette generated from these colors?",
+      flag: "--dark-mode <mode>",
+      initial: recordedTheme?.dark ?? "none",
+      choices: [
+        { title: "No dark palette", value: "none" },
+        ...DARK_MODES.map((mode) => ({
+          title: DARK_MODE_LABELS[mode],
+          value: mode,
+        })),
+      ],
+    },
+    options.darkMode,
+    options
+  );
+  if (darkMode !== "none") {
+    theme.dark = darkMode;
+  }
+
+  const stylesheet = renderThemeStylesheet(upstream, theme, fonts);
+  // Only colors chosen for this project are checked, not the design system defaults
+  if (customizeTheme || recordedTheme || theme.dark) {
+    displayContrastReport(checkThemeContrast(theme, stylesheet));
+  }
+  changes.write(path.join(root, stylePath), stylesheet);
+  logInfo("Bits of Good theme and tailwindcss stylesheet created.");
+
+  // Handle adding css into project.
+  const styles = await importStylesheet(
+    root,
+    changes,
+    stylePath,
+    options,
+    recorded
+  );
+  return { styles: { ...styles, hash: hashContent(stylesheet) }, theme };
+}
+
+//Integrate style sheets.
+// imports the stylesheet into the entry file of the project's framework
+// (a Next.js layout or _app, the Remix root or the Vite entry), reusing the
+// entry file recorded by a previous run if it still exists
+export async function importStylesheet(
+  root: string,
+  changes: ChangeSet,
+  stylePath: string,
+  options: SetupOptions,
+  recorded?: StylesConfig
+): Promise<StylesConfig> {
+  const detected: DetectedFramework | null =
+    recorded?.entry && recorded.framework && changes.exists(recorded.entry)
+      ? { framework: recorded.framework, entryFile: recorded.entry }
+      : detectFramework(changes);
+
+  if (!detected) {
+    // no supported framework, so the user has to manually import the stylesheet
+    logWarning(
+      "Could not find a Next.js, Remix or Vite entry file, you will have to manually import the stylesheet."
+    );
+    logWarning(
+      "Make sure to import your css file into your code so the theme is applied correctly.\n" +
+        "Follow the instructions on the tailwind documentation: `https://tailwindcss.com/docs/installation/using-postcss`"
+    );
+    return { path: stylePath };
+  }
+
+  const { framework, entryFile } = detected;
+  logInfo(`Detected ${FRAMEWORK_NAMES[framework]} (entry file: ${entryFile})`);
+
+  const entryPath = path.join(root, entryFile);
+  const contents = changes.readText(entryPath) ?? "";
+  const imported = hasImport(root, contents, entryFile, stylePath);
+
+  if (imported === null) {
+    logWarning(
+      `Could not parse ${entryFile}. Make sure to import ${stylePath} into it so the theme is applied correctly.`
+    );
+    return { path: stylePath, framework };
+  }
+
+  if (imported) {
+    logInfo(
+      `The stylesheet you chose is already imported into ${entryFile}. Tailwind setup complete!`
+    );
+    return { path: stylePath, framework, entry: entryFile };
+  }
+
+  const updateEntry = await ask(
+    {
+      type: "confirm",
+      message: `The stylesheet you chose is not imported into ${entryFile}. Would you like to update it?`,
+      flag: "--layout-import/--no-layout-import",
+      initial: true,
+    },
+    options.layoutImport,
+    options
+  );
+
+  if (!updateEntry) {
+    logWarning(
+      `Make sure to import your css file into ${entryFile} so the theme is applied correctly. Follow the instructions on the tailwind documentation: \`https://tailwindcss.com/docs/installation/using-postcss\``
+    );
+    return { path: stylePath, framework };
+  }
+
+  // add the stylesheet import after the entry file's directives and imports
+  const updated = addImport(root, contents, entryFile, stylePath);
+  if (updated === null) {
+    logWarning(
+      `Could not parse ${entryFile}. Make sure to import ${stylePath} into it so the theme is applied correctly.`
+    );
+    return { path: stylePath, framework };
+  }
+  changes.write(entryPath, updated);
+  return { path: stylePath, framework, entry: entryFile };
+}
+
+//Setting up fonts
+// downloads the fonts into the public directory and wires them into the
+// project with @font-face rules (written by setupStyles) or, for Next.js, a
+// next/font/local module
+// returns the fonts to record in bog.json, or null if skipped
+// recorded - the fonts from a previous run
+export async function setupFonts(
+  root: string,
+  changes: ChangeSet,
+  registry: Registry,
+  ref: string,
+  options: SetupOptions,
+  recorded?: FontsConfig
+): Promise<FontsConfig | null> {
+  const setupFonts = await ask(
+    {
+      type: "confirm",
+      message: "Do you want to set up the Bits of Good fonts?",
+      flag: "--fonts/--no-fonts",
+      initial: true,
+    },
+    options.fonts ?? (options.fontsPath ? true : undefined),
+    options
+  );
+
+  if (!setupFonts) {
+    logWarning(
+      "Skipping the Bits of Good fonts setup. Your project may not look like the Design System Website."
+    );
+    return null;
+  }
+
+  const publicDir = await ask(
+    {
+      type: "text",
+      message:
+        "Input your public directory relative to your project's root directory.",
+      flag: "--fonts-path <path>",
+      initial: recorded ? `./${path.dirname(recorded.path)}/` : "./public/",
+    },
+    options.fontsPath,
+    options
+  );
+  const fontsDir = path.join(publicDir, "fonts");
+
+  await Promise.all(
+    FONTS.map(async (font: string) => {
+      const fontData = await registry.readBinary(`public/fonts/${font}`, ref);
+      changes.write(path.join(root, fontsDir, font), fontData);
+    })
+  );
+  logInfo(`Bits of Good fonts downloaded successfully.\n Fonts: ${FONTS}`);
+
+  // next/font only works in Next.js, everything else loads the fonts from CSS
+  const detected = detectFramework(changes);
+  const isNext =
+    detected?.framework === "next-app" || detected?.framework === "next-pages";
+  let loader: FontLoader = "css";
+  if (isNext) {
+    loader = await ask<FontLoader>(
+      {
+        type: "select",
+        message: "How should the fonts be loaded?",
+        flag: "--font-loader <loader>",
+        initial: recorded?.loader ?? "next-font",
+        choices: [
+          { title: "next/font/local module (self-hosted and preloaded)", value: "next-font" },
+          { title: "@font-face rules in the theme stylesheet", value: "css" },
+        ],
+      },
+      options.fontLoader,
+      options
+    );
+  } else if (options.fontLoader === "next-font") {
+    logWarning(
+      "next/font only works in Next.js projects. Loading the fonts with @font-face rules instead."
+    );
+  }
+
+  // Only Next.js projects load the fonts with next/font
+  if (loader === "css" || !detected) {
+    return {
+      path: fontsDir,
+      loader,
+      url: getPublicUrl(publicDir, fontsDir),
+    };
+  }
+
+  const fonts: FontsConfig = { path: fontsDir, loader };
+  const modulePath = recorded?.module ?? getFontsModulePath(detected);
+  changes.write(
+    path.join(root, modulePath),
+    renderFontsModule(fonts, modulePath)
+  );
+  const names = getFontExportNames();
+  logInfo(
+    `Created ${modulePath}. Import { ${names.join(", ")} } from it in ${detected.entryFile} and add their variables to the root element (<html> in a layout):\n` +
+      `  <html className={\`${names.map((name) => `\${${name}.variable}`).join(" ")}\`}>`
+  );
+  return { ...fonts, module: modulePath };
+}
@@ -0,0 +1,609 @@
+import { existsSync, readdirSync } from "fs";
+import path from "path";
+import { parse } from "@babel/parser";
+import type { Node, ObjectExpression, Program } from "@babel/types";
+import { ChangeSet } from "../file-changes.js";
+import { isObject } from "../utils.js";
+
+// The PostCSS plugin of Tailwind v4 (v3 used the tailwindcss package itself)
+export const TAILWIND_POSTCSS_PLUGIN = "@tailwindcss/postcss";
+
+// PostCSS config files, in the order postcss-load-config looks for them.
+// package.json can also hold the config in its "postcss" field.
+const POSTCSS_CONFIG_FILES = [
+  ".postcssrc",
+  ".postcssrc.json",
+  ".postcssrc.yaml",
+  ".postcssrc.yml",
+  ".postcssrc.ts",
+  ".postcssrc.cts",
+  ".postcssrc.mts",
+  ".postcssrc.js",
+  ".postcssrc.cjs",
+  ".postcssrc.mjs",
+  "postcss.config.ts",
+  "postcss.config.cts",
+  "postcss.config.mts",
+  "postcss.config.js",
+  "postcss.config.cjs",
+  "postcss.config.mjs",
+];
+
+// PostCSS configs that are JSON (.postcssrc may also be YAML) or YAML.
+// The others are JavaScript or TypeScript.
+const JSON_POSTCSS_CONFIG_FILES = [
+  "package.json",
+  ".postcssrc",
+  ".postcssrc.json",
+];
+const YAML_POSTCSS_CONFIG_FILES = [".postcssrc.yaml", ".postcssrc.yml"];
+
+// Tailwind v3 config files
+const TAILWIND_CONFIG_FILES = [
+  "tailwind.config.js",
+  "tailwind.config.cjs",
+  "tailwind.config.mjs",
+  "tailwind.config.ts",
+];
+
+// Directories never searched for stylesheets
+const IGNORED_DIRECTORIES = new Set([
+  "node_modules",
+  ".git",
+  ".next",
+  "dist",
+  "build",
+  "out",
+]);
+
+// Matches the Tailwind v3 `@tailwind base;` style directives, one per line
+const TAILWIND_DIRECTIVE_PATTERN =
+  /^[ \t]*@tailwind\s+(base|components|utilities|variants|screens)\s*;?[ \t]*(\r?\n)?/gm;
+
+// Tailwind v3 theme keys and the v4 CSS variable namespace each maps to
+const THEME_NAMESPACES: Record<string, string> = {
+  colors: "color",
+  fontFamily: "font",
+  fontSize: "text",
+  fontWeight: "font-weight",
+  letterSpacing: "tracking",
+  lineHeight: "leading",
+  spacing: "spacing",
+  borderRadius: "radius",
+  boxShadow: "shadow",
+  screens: "breakpoint",
+  animation: "animate",
+};
+
+// A member of an object literal (property, method or spread)
+type ObjectMember = ObjectExpression["properties"][number];
+
+/**
+ * Checks whether a value is a node of a Babel AST
+ */
+function isNode(value: unknown): value is Node {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { type?: unknown }).type === "string"
+  );
+}
+
+/**
+ * Calls `visit` for every node of a Babel AST
+ */
+function walk(node: Node, visit: (node: Node) => void): void {
+  visit(node);
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "loc" || key === "extra" || !value || typeof value !== "object") {
+      continue;
+    }
+    const children: unknown[] = Array.isArray(value) ? value : [value];
+    for (const child of children) {
+      if (isNode(child)) {
+        walk(child, visit);
+      }
+    }
+  }
+}
+
+/**
+ * Parses a JavaScript or TypeScript config file
+ * @returns The program, or null if the file could not be parsed
+ */
+function parseConfig(source: string): Program | null {
+  try {
+    return parse(source, { sourceType: "unambiguous", plugins: ["typescript"] })
+      .program;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the name of an object property key (`key`, `"key"` or `1`)
+ */
+function getKeyName(property: ObjectMember): string | null {
+  if (property.type !== "ObjectProperty" || property.computed) return null;
+  if (property.key.type === "Identifier") return property.key.name;
+  if (property.key.type === "StringLiteral") return property.key.value;
+  if (property.key.type === "NumericLiteral") return String(property.key.value);
+  return null;
+}
+
+/**
+ * Finds the value of a property in an object literal
+ */
+function getProperty(object: ObjectExpression, name: string): Node | null {
+  const property = object.properties.find(
+    (property) => getKeyName(property) === name
+  );
+  return property?.type === "ObjectProperty" ? property.value : null;
+}
+
+/**
+ * Finds the first object literal in a config file with the given property
+ * (e.g. the object passed to `export default` or `module.exports`)
+ */
+function findConfigObject(
+  program: Program,
+  property: string
+): ObjectExpression | null {
+  let found: ObjectExpression | null = null;
+  walk(program, (node) => {
+    if (!found && node.type === "ObjectExpression" && getProperty(node, property)) {
+      found = node;
+    }
+  });
+  return found;
+}
+
+/**
+ * Applies text replacements to a source file
+ */
+function applyEdits(
+  source: string,
+  edits: Array<{ start: number; end: number; text: string }>
+): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (result, edit) =>
+        result.slice(0, edit.start) + edit.text + result.slice(edit.end),
+      source
+    );
+}
+
+/**
+ * Finds the project's PostCSS config
+ * @returns The config file relative to the project root ("package.json" when
+ * the config is its "postcss" field), or null if there is none
+ */
+export function findPostcssConfig(changes: ChangeSet): string | null {
+  const configFile = POSTCSS_CONFIG_FILES.find((file) => changes.exists(file));
+  if (configFile) return configFile;
+
+  try {
+    const packageJson = JSON.parse(changes.readText("package.json") ?? "{}");
+    return packageJson.postcss ? "package.json" : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Adds the Tailwind v4 plugin to parsed PostCSS config JSON, replacing the
+ * Tailwind v3 plugin and keeping every other plugin
+ * @returns False if the plugins are not an object or array
+ */
+function addPluginToJson(config: Record<string, unknown>): boolean {
+  const plugins = config.plugins ?? {};
+
+  if (Array.isArray(plugins)) {
+    const withoutV3 = plugins.filter((plugin) => plugin !== "tailwindcss");
+    config.plugins = withoutV3.includes(TAILWIND_POSTCSS_PLUGIN)
+      ? withoutV3
+      : [TAILWIND_POSTCSS_PLUGIN, ...withoutV3];
+    return true;
+  }
+
+  if (!isObject(plugins)) {
+    return false;
+  }
+
+  // Rebuild the object so the plugin keeps the position of the v3 plugin, or
+  // runs first (before plugins such as autoprefixer)
+  const entries = Object.entries(plugins).map(([name, options]) =>
+    name === "tailwindcss" ? [TAILWIND_POSTCSS_PLUGIN, options] : [name, options]
+  );
+  if (!entries.some(([name]) => name === TAILWIND_POSTCSS_PLUGIN)) {
+    entries.unshift([TAILWIND_POSTCSS_PLUGIN, {}]);
+  }
+  config.plugins = Object.fromEntries(entries);
+  return true;
+}
+
+/**
+ * Adds the Tailwind v4 plugin to a JavaScript PostCSS config, replacing the
+ * Tailwind v3 plugin (`"tailwindcss"`, `require("tailwindcss")` or an import
+ * of it) and keeping everything else in the file
+ * @returns The updated source, or null if the plugins could not be found
+ */
+function addPluginToScript(source: string): string | null {
+  const program = parseConfig(source);
+  if (!program) return null;
+
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  let quote = "'";
+  let usesRequire = false;
+  let firstString = true;
+
+  walk(program, (node) => {
+    if (node.type === "StringLiteral") {
+      if (firstString) {
+        quote = source[node.start!] === '"' ? '"' : "'";
+        firstString = false;
+      }
+      if (node.value === "tailwindcss") {
+        edits.push({
+          start: node.start!,
+          end: node.end!,
+          text: `${quote}${TAILWIND_POSTCSS_PLUGIN}${quote}`,
+        });
+      }
+    }
+    // `plugins: { tailwindcss: {} }`
+    if (
+      node.type === "ObjectProperty" &&
+      !node.computed &&
+      !node.shorthand &&
+      node.key.type === "Identifier" &&
+      node.key.name === "tailwindcss"
+    ) {
+      edits.push({
+        start: node.key.start!,
+        end: node.key.end!,
+        text: `${quote}${TAILWIND_POSTCSS_PLUGIN}${quote}`,
+      });
+    }
+    if (
+      node.type === "CallExpression" &&
+      node.callee.type === "Identifier" &&
+      node.callee.name === "require"
+    ) {
+      usesRequire = true;
+    }
+  });
+
+  const updated = applyEdits(source, edits);
+  if (updated.includes(TAILWIND_POSTCSS_PLUGIN)) {
+    return updated;
+  }
+
+  const config = findConfigObject(program, "plugins");
+  const plugins = config && getProperty(config, "plugins");
+  if (!plugins) return null;
+
+  const name = `${quote}${TAILWIND_POSTCSS_PLUGIN}${quote}`;
+  let entry: string;
+  let items: Node[];
+  if (plugins.type === "ObjectExpression") {
+    entry = `${name}: {}`;
+    items = plugins.properties;
+  } else if (plugins.type === "ArrayExpression") {
+    entry = usesRequire ? `require(${name})` : name;
+    items = plugins.elements.filter((element) => element !== null);
+  } else {
+    return null;
+  }
+
+  if (items.length === 0) {
+    const open = source.slice(plugins.start!, plugins.start! + 1);
+    const close = open === "{" ? "}" : "]";
+    const padding = open === "{" ? " " : "";
+    return applyEdits(source, [
+      {
+        start: plugins.start!,
+        end: plugins.end!,
+        text: `${open}${padding}${entry}${padding}${close}`,
+      },
+    ]);
+  }
+
+  // Insert before the first plugin, on its own line if the plugins are
+  const first = items[0]!;
+  const lineStart = source.lastIndexOf("\n", first.start! - 1) + 1;
+  const before = source.slice(lineStart, first.start!);
+  const separator = /^\s*$/.test(before) ? `,\n${before}` : ", ";
+  return applyEdits(source, [
+    { start: first.start!, end: first.start!, text: `${entry}${separator}` },
+  ]);
+}
+
+/**
+ * Adds the Tailwind v4 PostCSS plugin to an existing PostCSS config
+ * @param configFile - The file returned by findPostcssConfig
+ * @returns The updated contents (unchanged if the plugin is already there),
+ * or null if the config could not be understood
+ */
+export function mergePostcssConfig(
+  configFile: string,
+  source: string
+): string | null {
+  if (YAML_POSTCSS_CONFIG_FILES.includes(configFile)) {
+    return null;
+  }
+  if (!JSON_POSTCSS_CONFIG_FILES.includes(configFile)) {
+    return addPluginToScript(source);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch {
+    // .postcssrc may also be YAML
+    return null;
+  }
+
+  const config =
+    configFile === "package.json" && isObject(parsed) ? parsed.postcss : parsed;
+  if (!isObject(config) || !addPluginToJson(config)) {
+    return null;
+  }
+
+  const indent = source.match(/^[ \t]+/m)?.[0] ?? "  ";
+  const trailingNewline = source.endsWith("\n") ? "\n" : "";
+  return JSON.stringify(parsed, null, indent) + trailingNewline;
+}
+
+/**
+ * Lists the stylesheets on disk, skipping dependencies and build output
+ * @returns Paths relative to the project root
+ */
+function findStylesheetsOnDisk(root: string, dir: string = ""): string[] {
+  const absoluteDir = path.join(root, dir);
+  if (!existsSync(absoluteDir)) return [];
+
+  return readdirSync(absoluteDir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return IGNORED_DIRECTORIES.has(entry.name)
+        ? []
+        : findStylesheetsOnDisk(root, entryPath);
+    }
+    return entry.name.endsWith(".css") ? [entryPath] : [];
+  });
+}
+
+/**
+ * Lists the stylesheets in a project as they are after the pending changes,
+ * skipping dependencies and build output
+ * @returns Paths relative to the project root
+ */
+function findStylesheets(changes: ChangeSet): string[] {
+  const pending = changes
+    .list()
+    .map((change) => change.path)
+    .filter(
+      (file) =>
+        file.endsWith(".css") &&
+        !file.split(path.sep).some((part) => IGNORED_DIRECTORIES.has(part))
+    );
+
+  return [...new Set([...findStylesheetsOnDisk(changes.root), ...pending])]
+    .filter((file) => changes.exists(file))
+    .sort();
+}
+
+/**
+ * A project that still uses Tailwind v3
+ */
+export interface TailwindV3Setup {
+  // tailwind.config.* relative to the project root, if there is one
+  configFile: string | null;
+  // Stylesheets with `@tailwind` directives, relative to the project root
+  stylesheets: string[];
+}
+
+/**
+ * Detects a Tailwind v3 setup: stylesheets with `@tailwind` directives, or a
+ * tailwind.config.* file without any stylesheet importing Tailwind v4
+ * @returns The v3 files, or null if the project does not use Tailwind v3
+ */
+export function detectTailwindV3(changes: ChangeSet): TailwindV3Setup | null {
+  const configFile =
+    TAILWIND_CONFIG_FILES.find((file) => changes.exists(file)) ?? null;
+  const contents = findStylesheets(changes).map((file) => ({
+    file,
+    source: changes.readText(file) ?? "",
+  }));
+
+  const stylesheets = contents
+    .filter(({ source }) => new RegExp(TAILWIND_DIRECTIVE_PATTERN).test(source))
+    .map(({ file }) => file);
+  const importsV4 = contents.some(({ source }) =>
+    /@import\s+["']tailwindcss["']/.test(source)
+  );
+
+  if (stylesheets.length === 0 && (!configFile || importsV4)) {
+    return null;
+  }
+  return { configFile, stylesheets };
+}
+
+/**
+ * Statically evaluates a literal in a Tailwind config
+ * @returns The value, or undefined for anything that is not a plain literal
+ * (functions, spreads, references to other modules)
+ */
+function evaluateLiteral(node: Node): unknown {
+  switch (node.type) {
+    case "StringLiteral":
+      return node.value;
+    case "NumericLiteral":
+      return String(node.value);
+    case "TemplateLiteral":
+      return node.expressions.length === 0
+        ? node.quasis.map((quasi) => quasi.value.cooked).join("")
+        : undefined;
+    case "ArrayExpression": {
+      const values = node.elements.map((element) =>
+        element ? evaluateLiteral(element) : undefined
+      );
+      return values.includes(undefined) ? undefined : values;
+    }
+    case "ObjectExpression": {
+      const entries: Array<[string, unknown]> = [];
+      for (const property of node.properties) {
+        const name = getKeyName(property);
+        if (name === null || property.type !== "ObjectProperty") return undefined;
+        const value = evaluateLiteral(property.value);
+        if (value === undefined) return undefined;
+        entries.push([name, value]);
+      }
+      return Object.fromEntries(entries);
+    }
+    case "TSAsExpression":
+    case "TSSatisfiesExpression":
+      return evaluateLiteral(node.expression);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Formats a Tailwind v3 theme value as a CSS value
+ */
+function formatThemeValue(namespace: string, value: unknown): string {
+  if (!Array.isArray(value)) return String(value);
+
+  if (namespace === "font") {
+    // Font names with spaces must be quoted in CSS
+    return value
+      .map((name: string) =>
+        /\s/.test(name) && !/^["']/.test(name) ? `"${name}"` : name
+      )
+      .join(", ");
+  }
+  return value.join(", ");
+}
+
+/**
+ * Converts one Tailwind v3 theme section to v4 CSS variables
+ * Nested keys are joined with "-" and DEFAULT keys are dropped, so
+ * `colors.brand.DEFAULT` becomes `--color-brand`
+ */
+function themeSectionToVariables(
+  namespace: string,
+  value: unknown,
+  key: string = ""
+): string[] {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return Object.entries(value).flatMap(([name, child]) =>
+      themeSectionToVariables(
+        namespace,
+        child,
+        name === "DEFAULT" ? key : key ? `${key}-${name}` : name
+      )
+    );
+  }
+
+  const variable = `--${namespace}${key ? `-${key}` : ""}`;
+  // fontSize entries may be [size, lineHeight] or [size, { lineHeight }]
+  if (namespace === "text" && Array.isArray(value)) {
+    const [size, options] = value;
+    const lineHeight =
+      typeof options === "object" && options !== null
+        ? (options as Record<string, string>).lineHeight
+        : options;
+    return [
+      `${variable}: ${size};`,
+      ...(lineHeight ? [`${variable}--line-height: ${lineHeight};`] : []),
+    ];
+  }
+  return [`${variable}: ${formatThemeValue(namespace, value)};`];
+}
+
+/**
+ * Converts the theme of a Tailwind v3 config to a Tailwind v4 `@theme` block
+ * Sections that replace the default theme (outside `extend`) reset the
+ * namespace first. Values that are not plain literals are skipped.
+ * @returns The block (null if there is nothing to migrate), and the theme
+ * keys that could not be migrated
+ */
+export function convertTailwindTheme(source: string): {
+  theme: string | null;
+  skipped: string[];
+} {
+  const program = parseConfig(source);
+  const config = program && findConfigObject(program, "theme");
+  const theme = config && getProperty(config, "theme");
+  if (!theme || theme.type !== "ObjectExpression") {
+    return { theme: null, skipped: [] };
+  }
+
+  const lines: string[] = [];
+  const skipped: string[] = [];
+  const convertSection = (
+    property: ObjectMember,
+    prefix: string,
+    reset: boolean
+  ) => {
+    const name = getKeyName(property);
+    if (name === null || property.type !== "ObjectProperty") {
+      skipped.push(`${prefix}(computed key)`);
+      return;
+    }
+
+    const namespace = THEME_NAMESPACES[name];
+    const value = evaluateLiteral(property.value);
+    if (!namespace || value === undefined) {
+      skipped.push(prefix + name);
+      return;
+    }
+
+    if (reset) {
+      lines.push(`--${namespace}-*: initial;`);
+    }
+    lines.push(...themeSectionToVariables(namespace, value));
+  };
+
+  for (const property of theme.properties) {
+    const name = getKeyName(property);
+    if (
+      name === "extend" &&
+      property.type === "ObjectProperty" &&
+      property.value.type === "ObjectExpression"
+    ) {
+      for (const extended of property.value.properties) {
+        convertSection(extended, "theme.extend.", false);
+      }
+    } else {
+      convertSection(property, "theme.", true);
+    }
+  }
+
+  return {
+    theme:
+      lines.length > 0
+        ? `@theme {\n${lines.map((line) => `  ${line}`).join("\n")}\n}\n`
+        : null,
+    skipped,
+  };
+}
+
+/**
+ * Replaces the Tailwind v3 `@tailwind` directives of a stylesheet with the
+ * v4 `@import "tailwindcss";`, followed by the migrated theme if given
+ */
+export function replaceTailwindDirectives(
+  source: string,
+  theme: string | null
+): string {
+  let replaced = false;
+  return source.replace(TAILWIND_DIRECTIVE_PATTERN, () => {
+    if (replaced) return "";
+    replaced = true;
+    return `@import "tailwindcss";\n${theme ? `\n${theme}` : ""}`;
+  });
+}
@@ -0,0 +1,512 @@
+import path from "path";
+import {
+  logInfo,
+  logWarning,
+  logColored,
+  hashContent,
+  COLORS,
+} from "../utils.js";
+import {
+  BogConfig,
+  DarkMode,
+  FontsConfig,
+  StylesConfig,
+  ThemeColorRole,
+  ThemeConfig,
+} from "../bog-config.js";
+import {
+  DEFAULT_THEME_COLORS,
+  THEME_COLOR_ROLES,
+  UPSTREAM_STYLES_PATH,
+} from "../config.js";
+import { ask, AskOptions } from "../prompt-utils.js";
+import { Registry } from "../registry.js";
+import { ChangeSet } from "../file-changes.js";
+import {
+  contrastRatio,
+  deriveShade,
+  lightenForContrast,
+  withLightness,
+} from "./colors.js";
+import { renderFontFaces } from "./fonts.js";
+
+export const THEME_COLOR_LABELS: Record<ThemeColorRole, string> = {
+  brand: "your brand color",
+  text: "your text color",
+  info: "informational color",
+  warning: "warning color",
+  success: "success color",
+  error: "error color",
+};
+
+/**
+ * Normalizes a hex color to #rrggbb
+ * Accepts 6 hex characters with or without a leading '#'
+ * @returns The color, or null if it is not a 6 digit hex color
+ */
+export function normalizeHexColor(value: string): string | null {
+  const match = value.trim().match(/^#?([0-9a-fA-F]{6})$/);
+  return match ? `#${match[1]!.toLowerCase()}` : null;
+}
+
+/**
+ * Gets the theme colors recorded in bog.json, using the design system
+ * defaults for roles without one
+ */
+export function getThemeColors(
+  config: BogConfig | null
+): Record<ThemeColorRole, string> {
+  return { ...DEFAULT_THEME_COLORS, ...config?.["design-system"].theme?.colors };
+}
+
+/**
+ * Checks whether a string names a theme color role
+ */
+export function isThemeColorRole(role: string): role is ThemeColorRole {
+  return (THEME_COLOR_ROLES as readonly string[]).includes(role);
+}
+
+// Matches a hex color and the custom property it is assigned to, if any
+const COLOR_DECLARATION_PATTERN = /(?:(--[\w-]+)\s*:\s*)?#([0-9a-fA-F]{6})\b/g;
+
+// Matches the custom property of a palette shade, e.g. --color-brand-100
+const SHADE_VARIABLE_PATTERN = new RegExp(
+  `^--(?:[\\w-]*-)?(${THEME_COLOR_ROLES.join("|")})-(\\d{2,3})$`
+);
+
+// Matches the custom property of a role's base color, e.g. --color-brand
+const BASE_VARIABLE_PATTERN = new RegExp(
+  `^--(?:[\\w-]*-)?(${THEME_COLOR_ROLES.join("|")})$`
+);
+
+// Minimum WCAG AA contrast ratio for normal text
+const AA_CONTRAST_RATIO = 4.5;
+
+// OKLCH lightness of the dark theme's background and text
+const DARK_BACKGROUND_LIGHTNESS = 0.2;
+const DARK_TEXT_LIGHTNESS = 0.95;
+
+// Selectors that switch on the dark palette, except for the media query
+const DARK_MODE_SELECTORS: Record<Exclude<DarkMode, "media">, string> = {
+  class: ".dark",
+  attribute: '[data-theme="dark"]',
+};
+
+export const DARK_MODE_LABELS: Record<DarkMode, string> = {
+  media: "Follow the system setting (prefers-color-scheme)",
+  class: "A .dark class on a parent element",
+  attribute: 'A data-theme="dark" attribute on a parent element',
+};
+
+/**
+ * A shade of a role's tonal palette defined in the stylesheet
+ */
+export interface PaletteShade {
+  variable: string;
+  // e.g. 100 for --color-brand-100
+  shade: number;
+  color: string;
+}
+
+/**
+ * Gets the role and shade of a palette custom property
+ */
+function parseShadeVariable(
+  variable: string
+): { role: ThemeColorRole; shade: number } | null {
+  const match = variable.match(SHADE_VARIABLE_PATTERN);
+  return match
+    ? { role: match[1] as ThemeColorRole, shade: Number(match[2]) }
+    : null;
+}
+
+/**
+ * Finds the tonal palette shades a stylesheet defines for each role
+ * (custom properties such as --color-brand-100 set to a hex color)
+ */
+export function findPaletteShades(
+  stylesheet: string
+): Record<ThemeColorRole, PaletteShade[]> {
+  const shades = Object.fromEntries(
+    THEME_COLOR_ROLES.map((role) => [role, [] as PaletteShade[]])
+  ) as Record<ThemeColorRole, PaletteShade[]>;
+
+  for (const [, variable, hex] of stylesheet.matchAll(COLOR_DECLARATION_PATTERN)) {
+    const parsed = variable ? parseShadeVariable(variable) : null;
+    if (
+      parsed &&
+      !shades[parsed.role].some((shade) => shade.variable === variable)
+    ) {
+      shades[parsed.role].push({
+        variable: variable!,
+        shade: parsed.shade,
+        color: `#${hex!.toLowerCase()}`,
+      });
+    }
+  }
+
+  for (const role of THEME_COLOR_ROLES) {
+    shades[role].sort((a, b) => a.shade - b.shade);
+  }
+  return shades;
+}
+
+/**
+ * Finds the base color a stylesheet defines for each role (custom properties
+ * such as --color-brand set to a hex color)
+ * @returns The colors of the roles that have one
+ */
+export function findBaseColors(
+  stylesheet: string
+): Partial<Record<ThemeColorRole, string>> {
+  return Object.fromEntries(
+    Object.entries(findBaseVariables(stylesheet)).map(([role, { color }]) => [
+      role,
+      color,
+    ])
+  );
+}
+
+/**
+ * Finds the custom property of each role's base color and its value
+ */
+function findBaseVariables(
+  stylesheet: string
+): Partial<Record<ThemeColorRole, { variable: string; color: string }>> {
+  const variables: Partial<
+    Record<ThemeColorRole, { variable: string; color: string }>
+  > = {};
+  for (const [, variable, hex] of stylesheet.matchAll(COLOR_DECLARATION_PATTERN)) {
+    const role = variable?.match(BASE_VARIABLE_PATTERN)?.[1] as
+      | ThemeColorRole
+      | undefined;
+    if (role && !variables[role]) {
+      variables[role] = { variable: variable!, color: `#${hex!.toLowerCase()}` };
+    }
+  }
+  return variables;
+}
+
+/**
+ * Generates the theme stylesheet from the design system stylesheet
+ * Every use of a role's default color is replaced with the theme's, and every
+ * shade of its tonal palette is derived from the theme color the same way
+ * the design system derived it from the default, unless the theme sets it
+ * @param fonts - Where the fonts are, if they are loaded with @font-face rules
+ */
+export function renderThemeStylesheet(
+  upstream: string,
+  theme: ThemeConfig,
+  fonts?: FontsConfig
+): string {
+  const roleByDefault = new Map(
+    THEME_COLOR_ROLES.map((role) => [DEFAULT_THEME_COLORS[role], role])
+  );
+
+  // Colors are replaced in one pass so a role can take another role's default
+  const stylesheet = upstream.replace(
+    COLOR_DECLARATION_PATTERN,
+    (match, variable: string | undefined, hex: string) => {
+      const color = `#${hex.toLowerCase()}`;
+      const prefix = match.slice(0, -7);
+      const shade = variable ? parseShadeVariable(variable) : null;
+
+      if (shade) {
+        const override = theme.palettes?.[shade.role]?.[shade.shade];
+        if (override) {
+          return prefix + override;
+        }
+
+        const reference = DEFAULT_THEME_COLORS[shade.role];
+        const base = theme.colors[shade.role];
+        return base === reference
+          ? match
+          : prefix + deriveShade(color, reference, base);
+      }
+
+      const role = roleByDefault.get(color);
+      return role ? prefix + theme.colors[role] : match;
+    }
+  );
+
+  // Generated blocks are appended after the design system's own rules
+  const blocks = [
+    fonts?.loader === "css" ? renderFontFaces(fonts) : null,
+    theme.dark ? renderDarkTheme(stylesheet, theme.colors, theme.dark) : null,
+  ].filter((block): block is string => block !== null);
+
+  return blocks.length > 0
+    ? `${[stylesheet, ...blocks].map((block) => block.trimEnd()).join("\n\n")}\n`
+    : stylesheet;
+}
+
+/**
+ * Derives the dark theme colors from the light ones: the text color becomes
+ * a light tint of itself on a background that is a dark shade of it, and the
+ * other roles are lightened until they are readable on that background
+ */
+export function deriveDarkColors(colors: Record<ThemeColorRole, string>): {
+  background: string;
+  colors: Record<ThemeColorRole, string>;
+} {
+  const background = withLightness(colors.text, DARK_BACKGROUND_LIGHTNESS);
+  const dark = Object.fromEntries(
+    THEME_COLOR_ROLES.map((role) => [
+      role,
+      role === "text"
+        ? withLightness(colors.text, DARK_TEXT_LIGHTNESS)
+        : lightenForContrast(colors[role], background, AA_CONTRAST_RATIO),
+    ])
+  ) as Record<ThemeColorRole, string>;
+  return { background, colors: dark };
+}
+
+/**
+ * Generates the dark palette block appended to the stylesheet
+ * Base colors come from deriveDarkColors, and each palette is reversed so
+ * light shades (e.g. backgrounds) become dark ones and the other way around
+ * @param stylesheet - The light stylesheet, for the variable names and shades
+ */
+function renderDarkTheme(
+  stylesheet: string,
+  colors: Record<ThemeColorRole, string>,
+  mode: DarkMode
+): string {
+  const baseVariables = findBaseVariables(stylesheet);
+  const shades = findPaletteShades(stylesheet);
+  const dark = deriveDarkColors(colors).colors;
+
+  const declarations: string[] = [];
+  for (const role of THEME_COLOR_ROLES) {
+    const base = baseVariables[role];
+    if (base) {
+      declarations.push(`${base.variable}: ${dark[role]};`);
+    }
+    shades[role].forEach(({ variable }, index, palette) => {
+      declarations.push(
+        `${variable}: ${palette[palette.length - 1 - index]!.color};`
+      );
+    });
+  }
+
+  const header = `/* Dark palette generated by bog from the theme colors. Change it with 'bog design theme'. */`;
+  if (mode === "media") {
+    return `${header}
+@media (prefers-color-scheme: dark) {
+  :root {
+${declarations.map((line) => `    ${line}`).join("\n")}
+  }
+}
+`;
+  }
+
+  const selector = DARK_MODE_SELECTORS[mode];
+  // Point Tailwind's dark: variant at the selector instead of the media query
+  const variant = /@import\s+["']tailwindcss["']/.test(stylesheet)
+    ? `@custom-variant dark (&:where(${selector}, ${selector} *));\n`
+    : "";
+  return `${header}
+${variant}${selector} {
+${declarations.map((line) => `  ${line}`).join("\n")}
+}
+`;
+}
+
+/**
+ * The contrast of a foreground and background color of the theme
+ */
+export interface ContrastCheck {
+  foreground: string;
+  background: string;
+  ratio: number;
+  // Meets WCAG AA for normal text
+  passes: boolean;
+}
+
+/**
+ * Checks the WCAG contrast of the theme's text color on white and on the
+ * lightest shade of every other role, and of every other role against white
+ * (as text on white, or white text on a filled background), then of every
+ * dark theme color on the dark background
+ * @param stylesheet - The generated stylesheet, for the palette shades
+ */
+export function checkThemeContrast(
+  theme: ThemeConfig,
+  stylesheet: string
+): ContrastCheck[] {
+  const { colors } = theme;
+  const white = "#ffffff";
+  const shades = findPaletteShades(stylesheet);
+  const pairs: Array<[string, string, string, string]> = [
+    ["text", colors.text, "white", white],
+  ];
+
+  for (const role of THEME_COLOR_ROLES) {
+    if (role === "text") continue;
+    pairs.push([role, colors[role], "white", white]);
+
+    const lightest = shades[role][0];
+    if (lightest) {
+      pairs.push(["text", colors.text, lightest.variable, lightest.color]);
+    }
+  }
+
+  if (theme.dark) {
+    const dark = deriveDarkColors(colors);
+    for (const role of THEME_COLOR_ROLES) {
+      pairs.push([
+        `${role} (dark)`,
+        dark.colors[role],
+        "dark background",
+        dark.background,
+      ]);
+    }
+  }
+
+  return pairs.map(([foreground, foregroundColor, background, backgroundColor]) => {
+    const ratio = contrastRatio(foregroundColor, backgroundColor);
+    return {
+      foreground,
+      background,
+      ratio,
+      passes: ratio >= AA_CONTRAST_RATIO,
+    };
+  });
+}
+
+/**
+ * Prints a contrast report, warning about every combination that fails WCAG AA
+ * @returns True if every combination passes
+ */
+export function displayContrastReport(checks: ContrastCheck[]): boolean {
+  logInfo("\nWCAG contrast (AA needs 4.5:1 for normal text):");
+  const width = Math.max(
+    ...checks.map(({ foreground, background }) =>
+      `${foreground} on ${background}`.length
+    )
+  );
+
+  for (const { foreground, background, ratio, passes } of checks) {
+    logColored(
+      `  ${`${foreground} on ${background}`.padEnd(width)}  ${ratio
+        .toFixed(2)
+        .padStart(5)}:1  ${passes ? "AA" : "FAIL"}`,
+      passes ? "GREEN" : "RED"
+    );
+  }
+
+  const failures = checks.filter((check) => !check.passes);
+  if (failures.length > 0) {
+    logWarning(
+      `${failures.length} color combination(s) fail WCAG AA. Text in those colors may be hard to read.`
+    );
+  }
+  return failures.length === 0;
+}
+
+/**
+ * Formats a color as a block of that color for terminals with true color
+ */
+function formatSwatch(hex: string): string {
+  const [r, g, b] = [1, 3, 5].map((start) =>
+    parseInt(hex.slice(start, start + 2), 16)
+  );
+  return `\x1b[48;2;${r};${g};${b}m      ${COLORS.RESET}`;
+}
+
+/**
+ * Prints the color of every theme role with a swatch, followed by the
+ * shades of its tonal palette if the stylesheet defines any
+ */
+export function displayThemeColors(
+  colors: Record<ThemeColorRole, string>,
+  shades?: Record<ThemeColorRole, PaletteShade[]>
+): void {
+  const width = Math.max(...THEME_COLOR_ROLES.map((role) => role.length));
+  for (const role of THEME_COLOR_ROLES) {
+    const color = colors[role];
+    const isDefault = color === DEFAULT_THEME_COLORS[role];
+    logInfo(
+      `  ${role.padEnd(width)}  ${formatSwatch(color)}  ${color}${
+        isDefault ? " (default)" : ""
+      }`
+    );
+
+    if (shades && shades[role].length > 0) {
+      logInfo(
+        `  ${" ".repeat(width)}  ${shades[role]
+          .map(({ shade, color }) => `${shade} ${formatSwatch(color)}`)
+          .join(" ")}`
+      );
+    }
+  }
+}
+
+/**
+ * Regenerates the theme stylesheet from the design system stylesheet and the
+ * theme colors
+ * A stylesheet edited since it was last generated (its hash no longer matches
+ * the one recorded in bog.json) is only overwritten after confirmation
+ * @param styles - The stylesheet location, recorded or chosen
+ * @param fonts - The fonts recorded in bog.json
+ * @returns The stylesheet location with its new hash, or null if it was not written
+ */
+export async function writeThemeStylesheet(
+  changes: ChangeSet,
+  registry: Registry,
+  ref: string,
+  styles: StylesConfig,
+  theme: ThemeConfig,
+  fonts: FontsConfig | undefined,
+  options: AskOptions & { overwrite?: boolean }
+): Promise<StylesConfig | null> {
+  const stylePath = path.join(changes.root, styles.path);
+  const local = changes.readText(stylePath);
+
+  if (local !== null && hashContent(local) !== styles.hash) {
+    logWarning(
+      styles.hash
+        ? `${styles.path} has changed since it was generated.`
+        : `${styles.path} was not generated by bog, so local changes cannot be detected.`
+    );
+    const overwrite = await ask(
+      {
+        type: "confirm",
+        message: `Overwrite ${styles.path} with the regenerated theme?`,
+        flag: "--overwrite/--no-overwrite",
+        initial: true,
+      },
+      options.overwrite,
+      options
+    );
+    if (!overwrite) {
+      logWarning(`Keeping ${styles.path}. The theme was not applied.`);
+      return null;
+    }
+  }
+
+  const upstream = await registry.readText(UPSTREAM_STYLES_PATH, ref);
+  const stylesheet = renderThemeStylesheet(upstream, theme, fonts);
+
+  const shades = findPaletteShades(stylesheet);
+  const unused = Object.entries(theme.palettes ?? {}).flatMap(
+    ([role, palette]) =>
+      Object.keys(palette)
+        .filter(
+          (shade) =>
+            !shades[role as ThemeColorRole].some(
+              (defined) => defined.shade === Number(shade)
+            )
+        )
+        .map((shade) => `${role}-${shade}`)
+  );
+  if (unused.length > 0) {
+    logWarning(
+      `The stylesheet has no variable for these shades, so they were not applied: ${unused.join(", ")}`
+    );
+  }
+
+  displayContrastReport(checkThemeContrast(theme, stylesheet));
+  changes.write(stylePath, stylesheet);
+  return { ...styles, hash: hashContent(stylesheet) };
+}
@@ -0,0 +1,182 @@
+import { ThemeColorRole, ThemeConfig } from "../bog-config.js";
+import { THEME_COLOR_ROLES } from "../config.js";
+import { PaletteShade, normalizeHexColor } from "./theme.js";
+
+/**
+ * Theme colors read from a W3C Design Tokens file
+ */
+export interface ImportedTokens {
+  colors: Partial<Record<ThemeColorRole, string>>;
+  palettes: NonNullable<ThemeConfig["palettes"]>;
+  // Paths of color tokens that match no theme variable, e.g. "color.accent"
+  skipped: string[];
+}
+
+/**
+ * A design token with the path of groups leading to it
+ */
+interface Token {
+  path: string[];
+  type?: string;
+  value: unknown;
+}
+
+// Group names that hold the theme colors rather than name a color
+const COLOR_GROUPS = ["color", "colors"];
+
+// Token names for the base color of a group, e.g. color.brand.DEFAULT
+const BASE_TOKEN_NAMES = ["$root", "default", "base"];
+
+// Matches a role and optional shade once the token path is joined with
+// dashes, e.g. "brand" or "brand-100", mirroring the stylesheet variables
+const TOKEN_NAME_PATTERN = new RegExp(
+  `^(${THEME_COLOR_ROLES.join("|")})(?:-(\\d{2,3}))?$`
+);
+
+// Matches an alias to another token, e.g. "{color.brand.500}"
+const ALIAS_PATTERN = /^\{([^{}]+)\}$/;
+
+/**
+ * Collects every token of a tokens file, with the $type inherited from its
+ * groups
+ */
+function collectTokens(
+  group: Record<string, unknown>,
+  path: string[] = [],
+  inheritedType?: string
+): Token[] {
+  const type =
+    typeof group.$type === "string" ? group.$type : inheritedType;
+  if ("$value" in group) {
+    return [{ path, type, value: group.$value }];
+  }
+
+  return Object.entries(group).flatMap(([name, child]) => {
+    // Other $ properties ($description, $extensions...) are metadata
+    const isMetadata = name.startsWith("$") && name !== "$root";
+    if (
+      isMetadata ||
+      typeof child !== "object" ||
+      child === null ||
+      Array.isArray(child)
+    ) {
+      return [];
+    }
+    return collectTokens(child as Record<string, unknown>, [...path, name], type);
+  });
+}
+
+/**
+ * Reads a color token value as #rrggbb, following aliases
+ * Accepts hex strings (#rgb, #rrggbb, or with an opaque alpha) and the
+ * color objects of newer token files when they have a hex fallback
+ * @returns The color, or null if it is not a color we can use
+ */
+function resolveColor(
+  value: unknown,
+  tokens: Map<string, Token>,
+  seen: Set<string> = new Set()
+): string | null {
+  if (typeof value === "object" && value !== null && "hex" in value) {
+    return resolveColor((value as { hex: unknown }).hex, tokens, seen);
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const alias = value.match(ALIAS_PATTERN)?.[1];
+  if (alias) {
+    const target = tokens.get(alias);
+    if (!target || seen.has(alias)) {
+      return null;
+    }
+    return resolveColor(target.value, tokens, new Set([...seen, alias]));
+  }
+
+  const hex = value.trim().toLowerCase();
+  if (/^#[0-9a-f]{3}$/.test(hex)) {
+    return `#${[...hex.slice(1)].map((digit) => digit + digit).join("")}`;
+  }
+  if (/^#[0-9a-f]{6}ff$/.test(hex)) {
+    return hex.slice(0, 7);
+  }
+  return hex.startsWith("#") ? normalizeHexColor(hex) : null;
+}
+
+/**
+ * Maps the color tokens of a W3C Design Tokens file onto the theme
+ * A token names a theme variable by its path without the color group,
+ * either nested (color.brand.100) or flat (color.brand-100). Base colors
+ * use the role alone (color.brand) or a DEFAULT/base/$root token.
+ * @throws If the file is not a tokens object
+ */
+export function parseThemeTokens(tokensFile: unknown): ImportedTokens {
+  if (
+    typeof tokensFile !== "object" ||
+    tokensFile === null ||
+    Array.isArray(tokensFile)
+  ) {
+    throw new Error("A design tokens file must contain a JSON object.");
+  }
+
+  const tokens = collectTokens(tokensFile as Record<string, unknown>);
+  const byPath = new Map(tokens.map((token) => [token.path.join("."), token]));
+  const imported: ImportedTokens = { colors: {}, palettes: {}, skipped: [] };
+
+  for (const token of tokens) {
+    if (token.type !== undefined && token.type !== "color") continue;
+    const color = resolveColor(token.value, byPath);
+    if (!color) {
+      // Untyped tokens that aren't colors are not ours to report
+      if (token.type === "color") {
+        imported.skipped.push(token.path.join("."));
+      }
+      continue;
+    }
+
+    const names = token.path.filter(
+      (name, index) =>
+        !(index === 0 && COLOR_GROUPS.includes(name.toLowerCase())) &&
+        !(
+          index === token.path.length - 1 &&
+          BASE_TOKEN_NAMES.includes(name.toLowerCase())
+        )
+    );
+    const match = names.join("-").toLowerCase().match(TOKEN_NAME_PATTERN);
+    if (!match) {
+      imported.skipped.push(token.path.join("."));
+      continue;
+    }
+
+    const role = match[1] as ThemeColorRole;
+    if (match[2]) {
+      imported.palettes[role] = {
+        ...imported.palettes[role],
+        [Number(match[2])]: color,
+      };
+    } else {
+      imported.colors[role] = color;
+    }
+  }
+
+  return imported;
+}
+
+/**
+ * Builds a W3C Design Tokens file from the theme colors and palette shades
+ * Tokens are named after the stylesheet variables (color.brand,
+ * color.brand-100) so the file imports back into the same theme
+ */
+export function renderThemeTokens(
+  colors: Record<ThemeColorRole, string>,
+  shades: Record<ThemeColorRole, PaletteShade[]>
+): Record<string, unknown> {
+  const group: Record<string, unknown> = { $type: "color" };
+  for (const role of THEME_COLOR_ROLES) {
+    group[role] = { $value: colors[role] };
+    for (const { shade, color } of shades[role]) {
+      group[`${role}-${shade}`] = { $value: color };
+    }
+  }
+  return { color: group };
+}
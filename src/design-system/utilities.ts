@@ -0,0 +1,214 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { logInfo, logWarning, logColored, hashContent } from "../utils.js";
+import { UtilsConfig } from "../bog-config.js";
+import { UPSTREAM_UTILS_PATH } from "../config.js";
+import { ChangeSet } from "../file-changes.js";
+import { ask, AskOptions } from "../prompt-utils.js";
+import { Registry } from "../registry.js";
+import {
+  ImportLocations,
+  resolveImportLocations,
+  rewriteImports,
+} from "./imports.js";
+import {
+  LOCAL_CHANGE_STRATEGIES,
+  LocalChangeStrategy,
+  updateModifiedFile,
+} from "./components.js";
+
+/**
+ * Downloads one utilities file, with its imports rewritten for the project
+ * @param filePath - Path relative to the utilities directory, with forward slashes
+ */
+async function fetchUtilsFile(
+  registry: Registry,
+  ref: string,
+  utils: UtilsConfig,
+  locations: ImportLocations,
+  filePath: string
+): Promise<string> {
+  const upstreamPath = `${UPSTREAM_UTILS_PATH}/${filePath}`;
+  return rewriteImports(
+    await registry.readText(upstreamPath, ref),
+    upstreamPath,
+    path.join(utils.path, filePath),
+    locations
+  );
+}
+
+/**
+ * Downloads every utilities file, with imports rewritten for the project
+ * @returns The contents of each file, keyed by path relative to the utilities
+ * directory (with forward slashes, as recorded in bog.json)
+ */
+export async function fetchUtilsFiles(
+  registry: Registry,
+  ref: string,
+  utils: UtilsConfig,
+  locations: ImportLocations
+): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+
+  async function download(directory: string) {
+    const entries = await registry.listDirectory(
+      `/${UPSTREAM_UTILS_PATH}${directory ? `/${directory}` : ""}`,
+      ref
+    );
+    for (const entry of entries) {
+      const filePath = directory ? `${directory}/${entry.name}` : entry.name;
+      if (entry.type === "dir") {
+        await download(filePath);
+      } else if (entry.type === "file") {
+        files.set(
+          filePath,
+          await fetchUtilsFile(registry, ref, utils, locations, filePath)
+        );
+      }
+    }
+  }
+
+  await download("");
+  return files;
+}
+
+/**
+ * Hashes downloaded utilities files to record them in bog.json
+ */
+export function hashUtilsFiles(
+  files: Map<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    [...files].map(([filePath, contents]) => [filePath, hashContent(contents)])
+  );
+}
+
+/**
+ * Checks whether the installed utilities are older than a design system version
+ * Utilities recorded without a version predate tracking and count as outdated
+ */
+export function isUtilsOutdated(utils: UtilsConfig, version: string): boolean {
+  return utils.version !== version;
+}
+
+/**
+ * Finds the utilities files whose contents no longer match the hashes
+ * recorded in bog.json at install time
+ * Missing files are not reported
+ */
+export function findModifiedUtilsFiles(
+  root: string,
+  utils: UtilsConfig
+): string[] {
+  return Object.entries(utils.files ?? {})
+    .filter(([filePath, hash]) => {
+      const fullPath = path.join(root, utils.path, filePath);
+      return (
+        existsSync(fullPath) && hashContent(readFileSync(fullPath)) !== hash
+      );
+    })
+    .map(([filePath]) => filePath);
+}
+
+/**
+ * Checks the utilities for local modifications before an update and asks how
+ * to handle them, like resolveLocalChanges does for components
+ * @returns The chosen strategy, or "overwrite" if nothing was modified
+ */
+export async function resolveUtilsLocalChanges(
+  root: string,
+  utils: UtilsConfig,
+  options: AskOptions & { onModified?: LocalChangeStrategy } = {}
+): Promise<LocalChangeStrategy> {
+  if (!utils.files) {
+    logWarning(
+      `No file hashes recorded for the utilities in ${utils.path}, so local changes cannot be detected. They will be overwritten.`
+    );
+    return "overwrite";
+  }
+
+  const modifiedFiles = findModifiedUtilsFiles(root, utils);
+  if (modifiedFiles.length === 0) {
+    return "overwrite";
+  }
+
+  logWarning(`The utilities in ${utils.path} have local changes:`);
+  modifiedFiles.forEach((file) => logColored(`  ~ ${file}`, "YELLOW"));
+
+  return ask(
+    {
+      type: "select",
+      message: "How should local changes to the utilities be handled?",
+      flag: "--on-modified <strategy>",
+      initial: "backup",
+      choices: LOCAL_CHANGE_STRATEGIES,
+    },
+    options.onModified,
+    options
+  );
+}
+
+/**
+ * Updates the utilities to a design system version
+ * Modified files are handled with `strategy`, and files the new version no
+ * longer has are removed unless they were modified
+ * Files are written to `changes`, which the caller applies
+ * @returns The utilities to record in bog.json
+ */
+export async function updateUtils(
+  root: string,
+  utils: UtilsConfig,
+  componentsPath: string,
+  registry: Registry,
+  ref: string,
+  version: string,
+  changes: ChangeSet,
+  strategy: LocalChangeStrategy = "overwrite"
+): Promise<UtilsConfig> {
+  if (strategy === "skip") {
+    logInfo("Skipped the utilities, keeping local changes");
+    return utils;
+  }
+
+  const modifiedFiles =
+    strategy === "overwrite" ? [] : findModifiedUtilsFiles(root, utils);
+  const locations = resolveImportLocations(root, componentsPath, utils);
+  const files = await fetchUtilsFiles(registry, ref, utils, locations);
+
+  for (const [filePath, upstream] of files) {
+    const fullPath = path.join(root, utils.path, filePath);
+    changes.write(
+      fullPath,
+      modifiedFiles.includes(filePath)
+        ? await updateModifiedFile(
+            changes,
+            fullPath,
+            upstream,
+            strategy === "merge" ? "merge" : "backup",
+            {
+              ref: utils.ref,
+              version: utils.version,
+              hash: utils.files?.[filePath],
+            },
+            (baseRef) =>
+              fetchUtilsFile(registry, baseRef, utils, locations, filePath),
+            "the utilities"
+          )
+        : upstream
+    );
+  }
+
+  for (const filePath of Object.keys(utils.files ?? {})) {
+    if (files.has(filePath)) continue;
+    if (modifiedFiles.includes(filePath)) {
+      logWarning(
+        `Keeping ${filePath}, which the new utilities no longer have but was changed locally.`
+      );
+    } else {
+      changes.remove(path.join(root, utils.path, filePath));
+    }
+  }
+
+  logInfo(`Updated the utilities in ${utils.path} (v${version})`);
+  return { ...utils, version, ref, files: hashUtilsFiles(files) };
+}
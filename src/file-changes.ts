@@ -0,0 +1,314 @@
+import { existsSync, readdirSync, readFileSync, rmSync, statSync } from "fs";
+import { mkdir, mkdtemp, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import { createTwoFilesPatch } from "diff";
+import { logInfo, logColored } from "./utils.js";
+
+export type FileContent = string | Buffer;
+
+/**
+ * A planned change to one file
+ */
+export interface FileChange {
+  // Path relative to the project root
+  path: string;
+  // Contents on disk before the change, null if the file does not exist
+  before: FileContent | null;
+  // Contents after the change, null if the file is deleted
+  after: FileContent | null;
+}
+
+/**
+ * Collects file writes and deletions in memory so they can be previewed
+ * (--dry-run) before anything is written to disk
+ * Reads see pending changes, so later steps build on earlier ones
+ * Paths may be absolute or relative to the project root
+ */
+export interface ChangeSet {
+  root: string;
+  exists(filePath: string): boolean;
+  readText(filePath: string): string | null;
+  write(filePath: string, content: FileContent): void;
+  // Deletes a file, or every file in a directory
+  remove(targetPath: string): void;
+  // The files whose contents would change
+  list(): FileChange[];
+  // Directories that should be deleted once their files are gone
+  removedDirectories(): string[];
+}
+
+/**
+ * Lists every file under a directory on disk, recursively
+ */
+function listFiles(dir: string): string[] {
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    return [];
+  }
+
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(entryPath) : [entryPath];
+  });
+}
+
+/**
+ * Creates an empty change set for a project
+ */
+export function createChangeSet(root: string): ChangeSet {
+  // Pending contents keyed by absolute path, null for deletions
+  const pending = new Map<string, FileContent | null>();
+  const directories = new Set<string>();
+  const resolve = (filePath: string) => path.resolve(root, filePath);
+
+  const readDisk = (absolutePath: string): Buffer | null =>
+    existsSync(absolutePath) && statSync(absolutePath).isFile()
+      ? readFileSync(absolutePath)
+      : null;
+
+  return {
+    root,
+    exists(filePath) {
+      const absolutePath = resolve(filePath);
+      if (pending.has(absolutePath)) {
+        return pending.get(absolutePath) !== null;
+      }
+      // A directory exists if files will be written into it
+      const prefix = absolutePath + path.sep;
+      for (const [pendingPath, content] of pending) {
+        if (content !== null && pendingPath.startsWith(prefix)) return true;
+      }
+      return existsSync(absolutePath) && !directories.has(absolutePath);
+    },
+    readText(filePath) {
+      const absolutePath = resolve(filePath);
+      const content = pending.has(absolutePath)
+        ? pending.get(absolutePath)!
+        : readDisk(absolutePath);
+      return content === null ? null : content.toString();
+    },
+    write(filePath, content) {
+      pending.set(resolve(filePath), content);
+    },
+    remove(targetPath) {
+      const absolutePath = resolve(targetPath);
+      if (!existsSync(absolutePath) || statSync(absolutePath).isFile()) {
+        pending.set(absolutePath, null);
+        return;
+      }
+
+      const prefix = absolutePath + path.sep;
+      directories.add(absolutePath);
+      [
+        ...listFiles(absolutePath),
+        ...[...pending.keys()].filter((file) => file.startsWith(prefix)),
+      ].forEach((file) => pending.set(file, null));
+    },
+    list() {
+      const changes: FileChange[] = [];
+      for (const [absolutePath, after] of pending) {
+        const before = readDisk(absolutePath);
+        if (before === null && after === null) continue;
+        if (
+          before !== null &&
+          after !== null &&
+          before.equals(Buffer.from(after))
+        ) {
+          continue;
+        }
+        changes.push({
+          path: path.relative(root, absolutePath),
+          before,
+          after,
+        });
+      }
+      return changes.sort((a, b) => a.path.localeCompare(b.path));
+    },
+    removedDirectories() {
+      return [...directories].map((dir) => path.relative(root, dir));
+    },
+  };
+}
+
+/**
+ * Returns true if file contents look like text (no NUL bytes)
+ */
+function isText(content: FileContent | null): boolean {
+  return content === null || !Buffer.from(content).includes(0);
+}
+
+/**
+ * Prints the files a change set would create, modify or delete, followed by a
+ * unified diff of every text file
+ */
+export function displayChanges(changes: ChangeSet): void {
+  const list = changes.list();
+  if (list.length === 0) {
+    logInfo("\nNo files would change.");
+    return;
+  }
+
+  logInfo("\nFiles that would change:");
+  for (const change of list) {
+    if (change.before === null) {
+      logColored(`+ ${change.path} (create)`, "GREEN");
+    } else if (change.after === null) {
+      logColored(`- ${change.path} (delete)`, "RED");
+    } else {
+      logColored(`~ ${change.path} (modify)`, "YELLOW");
+    }
+  }
+
+  for (const change of list) {
+    logInfo("");
+    if (!isText(change.before) || !isText(change.after)) {
+      logInfo(`Binary file ${change.path} differs`);
+      continue;
+    }
+
+    const patch = createTwoFilesPatch(
+      change.before === null ? "/dev/null" : `a/${change.path}`,
+      change.after === null ? "/dev/null" : `b/${change.path}`,
+      change.before?.toString() ?? "",
+      change.after?.toString() ?? ""
+    );
+
+    // Skip the "====" separator line createTwoFilesPatch starts with
+    for (const line of patch.split("\n").slice(1)) {
+      if (line.startsWith("+++") || line.startsWith("---")) {
+        logInfo(line);
+      } else if (line.startsWith("+")) {
+        logColored(line, "GREEN");
+      } else if (line.startsWith("-")) {
+        logColored(line, "RED");
+      } else if (line.startsWith("@@")) {
+        logColored(line, "CYAN");
+      } else if (line) {
+        logInfo(line);
+      }
+    }
+  }
+}
+
+/**
+ * Changes that have been swapped into place but whose backups are kept until
+ * they are committed, so they can still be undone
+ */
+export interface StagedChanges {
+  // Deletes the backups, making the changes permanent
+  commit(): Promise<void>;
+  // Restores every file (and removes every created directory) exactly as before
+  rollback(): Promise<void>;
+}
+
+/**
+ * Creates a directory, recording the first directory that did not exist yet
+ * so a rollback can remove everything that was created
+ */
+async function createDirectory(dir: string, created: string[]): Promise<void> {
+  let missing: string | null = null;
+  for (
+    let current = dir;
+    !existsSync(current);
+    current = path.dirname(current)
+  ) {
+    missing = current;
+  }
+
+  if (missing) {
+    await mkdir(dir, { recursive: true });
+    created.push(missing);
+  }
+}
+
+/**
+ * Writes a change set to disk atomically
+ * Every new file is first written to a staging directory inside the project.
+ * The files are then swapped into place, moving the previous versions into the
+ * staging directory, so a failure at any point restores the previous state.
+ */
+export async function stageChanges(changes: ChangeSet): Promise<StagedChanges> {
+  const list = changes.list();
+  const staging = await mkdtemp(path.join(changes.root, ".bog-staging-"));
+  const stagedPath = (change: FileChange) =>
+    path.join(staging, "new", change.path);
+  const backupPath = (change: FileChange) =>
+    path.join(staging, "backup", change.path);
+  const targetPath = (change: FileChange) =>
+    path.join(changes.root, change.path);
+
+  // Directories created in the project, removed again on rollback
+  const createdDirectories: string[] = [];
+  // Changes whose previous version has been moved out of the way, and whether
+  // the new version has been moved into place
+  const swapped: Array<{ change: FileChange; placed: boolean }> = [];
+
+  const rollback = async () => {
+    for (const { change, placed } of [...swapped].reverse()) {
+      if (placed) {
+        await rm(targetPath(change), { force: true });
+      }
+      if (change.before !== null) {
+        await rename(backupPath(change), targetPath(change));
+      }
+    }
+    for (const dir of [...createdDirectories].reverse()) {
+      await rm(dir, { recursive: true, force: true });
+    }
+    await rm(staging, { recursive: true, force: true });
+  };
+
+  try {
+    // Stage the new contents, so nothing in the project changes until
+    // every file has been written successfully
+    for (const change of list) {
+      if (change.after === null) continue;
+      await mkdir(path.dirname(stagedPath(change)), { recursive: true });
+      await writeFile(stagedPath(change), change.after);
+    }
+
+    // Swap the staged files into place, keeping the previous versions
+    for (const change of list) {
+      if (change.before !== null) {
+        await mkdir(path.dirname(backupPath(change)), { recursive: true });
+        await rename(targetPath(change), backupPath(change));
+      }
+      const entry = { change, placed: false };
+      swapped.push(entry);
+
+      if (change.after !== null) {
+        await createDirectory(
+          path.dirname(targetPath(change)),
+          createdDirectories
+        );
+        await rename(stagedPath(change), targetPath(change));
+        entry.placed = true;
+      }
+    }
+  } catch (error) {
+    await rollback();
+    throw error;
+  }
+
+  return {
+    async commit() {
+      await rm(staging, { recursive: true, force: true });
+
+      // Delete removed directories that are now empty
+      for (const dir of changes.removedDirectories()) {
+        const absolutePath = path.join(changes.root, dir);
+        if (existsSync(absolutePath) && listFiles(absolutePath).length === 0) {
+          rmSync(absolutePath, { recursive: true, force: true });
+        }
+      }
+    },
+    rollback,
+  };
+}
+
+/**
+ * Writes a change set to disk atomically (see stageChanges)
+ */
+export async function applyChanges(changes: ChangeSet): Promise<void> {
+  const staged = await stageChanges(changes);
+  await staged.commit();
+}
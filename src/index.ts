@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 import { Command } from "commander";
+import { existsSync } from "fs";
 import { designSystem } from "./design-system/index.js";
 
 const program = new Command();
@@ -9,6 +10,16 @@ program
   .description(
     "The CLI to add different Bits of Good tools to your application."
   )
+  .option("-C, --cwd <path>", "run as if bog was started in <path>")
+  .hook("preAction", (command) => {
+    const { cwd } = command.opts();
+    if (!cwd) return;
+    if (!existsSync(cwd)) {
+      command.error(`error: the --cwd directory ${cwd} does not exist`);
+    }
+    // Every command resolves paths and searches for bog.json from here
+    process.chdir(cwd);
+  })
   .addCommand(designSystem);
 
 program.parse(process.argv);
@@ -0,0 +1,338 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { spawn } from "child_process";
+import os from "os";
+import path from "path";
+import ora from "ora";
+import { logInfo, logError } from "./utils.js";
+import { ask, AskOptions } from "./prompt-utils.js";
+import { findWorkspacePackage, findWorkspaceRoot } from "./workspaces.js";
+
+export type PackageManager = "npm" | "yarn" | "pnpm" | "bun";
+
+export const PACKAGE_MANAGERS: PackageManager[] = ["npm", "yarn", "pnpm", "bun"];
+
+// Lockfiles that identify each package manager, in order of precedence
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lockb", "bun"],
+  ["bun.lock", "bun"],
+  ["package-lock.json", "npm"],
+];
+
+export interface PackageManagerOptions extends AskOptions {
+  // Package manager chosen with --pm
+  pm?: string;
+  // Stream installer output instead of showing a spinner
+  verbose?: boolean;
+  // Print package manager commands instead of running them
+  dryRun?: boolean;
+}
+
+/**
+ * Detects the package manager a project uses from the `packageManager` field
+ * in package.json, then from its lockfile
+ * Workspace packages have neither, so the workspace root is checked next
+ * @returns The package manager and what it was detected from, or null
+ */
+export function detectPackageManager(
+  root: string
+): { packageManager: PackageManager; source: string } | null {
+  const detected = detectPackageManagerIn(root);
+  if (detected) {
+    return detected;
+  }
+
+  const workspaceRoot = findWorkspaceRoot(root);
+  if (!workspaceRoot || workspaceRoot === path.resolve(root)) {
+    return null;
+  }
+  const fromWorkspace = detectPackageManagerIn(workspaceRoot);
+  return fromWorkspace
+    ? {
+        packageManager: fromWorkspace.packageManager,
+        source: `${fromWorkspace.source} in the workspace root`,
+      }
+    : null;
+}
+
+/**
+ * Detects the package manager from the files of one directory
+ */
+function detectPackageManagerIn(
+  root: string
+): { packageManager: PackageManager; source: string } | null {
+  const packageJsonPath = path.join(root, "package.json");
+  if (existsSync(packageJsonPath)) {
+    try {
+      const { packageManager } = JSON.parse(
+        readFileSync(packageJsonPath, "utf8")
+      );
+      const name = String(packageManager ?? "").split("@")[0];
+      if (PACKAGE_MANAGERS.includes(name as PackageManager)) {
+        return {
+          packageManager: name as PackageManager,
+          source: "the packageManager field in package.json",
+        };
+      }
+    } catch {
+      // Invalid package.json, fall back to lockfiles
+    }
+  }
+
+  for (const [lockfile, packageManager] of LOCKFILES) {
+    if (existsSync(path.join(root, lockfile))) {
+      return { packageManager, source: lockfile };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves the package manager from --pm, the project's files, or a prompt
+ */
+export async function choosePackageManager(
+  root: string,
+  options: PackageManagerOptions
+): Promise<PackageManager> {
+  if (!options.pm) {
+    const detected = detectPackageManager(root);
+    if (detected) {
+      logInfo(
+        `Using ${detected.packageManager} (detected from ${detected.source})`
+      );
+      return detected.packageManager;
+    }
+  }
+
+  return ask<PackageManager>(
+    {
+      type: "select",
+      message: "Choose your preferred package manager",
+      flag: "--pm <manager>",
+      initial: "npm",
+      choices: PACKAGE_MANAGERS.map((name) => ({ title: name, value: name })),
+    },
+    options.pm,
+    options
+  );
+}
+
+// Characters cmd.exe interprets, even inside double quotes
+const CMD_META_CHARACTERS = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Escapes an argument for a command run through cmd.exe
+ * The argument is quoted for the program's own parser first. Package manager
+ * shims are .cmd files, which cmd.exe parses a second time, so its special
+ * characters (e.g. the ^ of a version range) are escaped twice
+ */
+function escapeWindowsArgument(arg: string): string {
+  const quoted = `"${arg
+    .replace(/(\\*)"/g, '$1$1\\"')
+    .replace(/(\\*)$/, "$1$1")}"`;
+  return quoted
+    .replace(CMD_META_CHARACTERS, "^$1")
+    .replace(CMD_META_CHARACTERS, "^$1");
+}
+
+/**
+ * Runs a command, without a shell except on Windows
+ * On Windows, npm, yarn and pnpm are .cmd shims that can only be started
+ * through cmd.exe, so the command runs in a shell with escaped arguments
+ * Output is streamed when `stream` is set, otherwise it is captured and written
+ * to a log file if the command fails
+ */
+function runCommand(
+  command: string,
+  args: string[],
+  cwd: string,
+  stream: boolean
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const windows = process.platform === "win32";
+    const child = spawn(
+      command,
+      windows ? args.map(escapeWindowsArgument) : args,
+      {
+        cwd,
+        stdio: stream ? "inherit" : ["ignore", "pipe", "pipe"],
+        shell: windows,
+      }
+    );
+
+    const output: Buffer[] = [];
+    child.stdout?.on("data", (chunk: Buffer) => output.push(chunk));
+    child.stderr?.on("data", (chunk: Buffer) => output.push(chunk));
+
+    child.on("error", (error) =>
+      reject(new Error(`Failed to run ${command}: ${error.message}`))
+    );
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+
+      let message = `${command} ${args.join(" ")} exited with code ${code}`;
+      if (!stream) {
+        const logFile = path.join(
+          os.tmpdir(),
+          `bog-${command}-${Date.now()}.log`
+        );
+        writeFileSync(
+          logFile,
+          `$ ${command} ${args.join(" ")}\n(cwd: ${cwd})\n\n${Buffer.concat(
+            output
+          ).toString()}`
+        );
+        message += `. Output saved to ${logFile}`;
+      }
+      reject(new Error(message));
+    });
+  });
+}
+
+/**
+ * Gets where to run a command that changes a project's dependencies, and the
+ * flags that point the package manager at the project
+ * In a workspace, npm only updates the shared lockfile when it runs from the
+ * workspace root with --workspace, and pnpm refuses to change the workspace
+ * root's own dependencies without -w
+ */
+function getWorkspaceTarget(
+  root: string,
+  packageManager: PackageManager
+): { cwd: string; args: string[] } {
+  if (packageManager === "npm") {
+    const workspace = findWorkspacePackage(root);
+    if (workspace) {
+      return {
+        cwd: workspace.workspaceRoot,
+        args: [
+          "--workspace",
+          path
+            .relative(workspace.workspaceRoot, workspace.packageRoot)
+            .split(path.sep)
+            .join("/"),
+        ],
+      };
+    }
+  }
+
+  if (
+    packageManager === "pnpm" &&
+    findWorkspaceRoot(root) === path.resolve(root)
+  ) {
+    return { cwd: root, args: ["-w"] };
+  }
+
+  return { cwd: root, args: [] };
+}
+
+/**
+ * Runs a package manager command, with a spinner unless output is streamed
+ * Returns false if the command failed
+ */
+async function runPackageManager(
+  cwd: string,
+  packageManager: PackageManager,
+  args: string[],
+  messages: { start: string; succeed: string; fail: string },
+  options: PackageManagerOptions
+): Promise<boolean> {
+  if (options.dryRun) {
+    logInfo(`Would run: ${packageManager} ${args.join(" ")}`);
+    return true;
+  }
+
+  const spinner = options.verbose ? null : ora(messages.start).start();
+  if (options.verbose) {
+    logInfo(`${messages.start}\n$ ${packageManager} ${args.join(" ")}`);
+  }
+
+  try {
+    await runCommand(packageManager, args, cwd, !!options.verbose);
+    if (spinner) {
+      spinner.succeed(messages.succeed);
+    } else {
+      logInfo(messages.succeed);
+    }
+    return true;
+  } catch (error: any) {
+    spinner?.fail(messages.fail);
+    logError(`Package manager command failed: ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Installs packages into the project
+ * Returns false if the package manager command failed
+ */
+export async function installPackages(
+  root: string,
+  packages: string[],
+  packageManager: PackageManager,
+  options: PackageManagerOptions & { dev?: boolean } = {}
+): Promise<boolean> {
+  if (packages.length === 0) {
+    return true;
+  }
+
+  const target = getWorkspaceTarget(root, packageManager);
+  const args = [
+    packageManager === "npm" ? "install" : "add",
+    ...(options.dev ? ["-D"] : []),
+    ...target.args,
+    ...packages,
+  ];
+  const kind = options.dev ? "dev dependencies" : "dependencies";
+
+  return runPackageManager(
+    target.cwd,
+    packageManager,
+    args,
+    {
+      start: `Installing ${kind}: ${packages.join(", ")}`,
+      succeed: `${kind.charAt(0).toUpperCase()}${kind.slice(1)} installed!`,
+      fail: `Failed to install ${kind}`,
+    },
+    options
+  );
+}
+
+/**
+ * Uninstalls packages from the project
+ * Returns false if the package manager command failed
+ */
+export async function uninstallPackages(
+  root: string,
+  packages: string[],
+  packageManager: PackageManager,
+  options: PackageManagerOptions = {}
+): Promise<boolean> {
+  if (packages.length === 0) {
+    return true;
+  }
+
+  const target = getWorkspaceTarget(root, packageManager);
+  const args = [
+    packageManager === "npm" ? "uninstall" : "remove",
+    ...target.args,
+    ...packages,
+  ];
+
+  return runPackageManager(
+    target.cwd,
+    packageManager,
+    args,
+    {
+      start: `Uninstalling: ${packages.join(", ")}`,
+      succeed: "Dependencies uninstalled!",
+      fail: "Failed to uninstall dependencies",
+    },
+    options
+  );
+}
@@ -0,0 +1,156 @@
+import prompts, { InitialReturnValue, PromptObject } from "prompts";
+
+/**
+ * Thrown when the user cancels a prompt (e.g. Ctrl+C)
+ */
+export class PromptCancelledError extends Error {
+  constructor() {
+    super("Operation cancelled.");
+    this.name = "PromptCancelledError";
+  }
+}
+
+/**
+ * Thrown when a question has no answer and the CLI cannot prompt for one
+ */
+export class MissingAnswerError extends Error {
+  constructor(message: string, flag: string) {
+    super(
+      `No answer for "${message}". Pass ${flag} when running without an interactive terminal.`
+    );
+    this.name = "MissingAnswerError";
+  }
+}
+
+export interface Choice<T extends InitialReturnValue> {
+  title: string;
+  value: T;
+}
+
+export interface Question<T extends InitialReturnValue> {
+  type: "confirm" | "text" | "select";
+  message: string;
+  // The CLI flag that answers this question without prompting
+  flag: string;
+  initial?: T;
+  choices?: Array<Choice<T>>;
+  validate?: (value: T) => boolean | string;
+}
+
+export interface AskOptions {
+  // Accept the default answer instead of prompting
+  yes?: boolean;
+}
+
+/**
+ * Returns true when both stdin and stdout are attached to a terminal
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+/**
+ * Finds the choice a flag value selects
+ * Throws if the value is not one of the question's choices
+ */
+function checkChoice<T extends InitialReturnValue>(
+  question: Question<T>,
+  choices: Array<Choice<T>>,
+  value: unknown
+): T {
+  const choice = choices.find((choice) => choice.value === value);
+  if (!choice) {
+    const allowed = choices.map((choice) => choice.value).join(", ");
+    throw new Error(
+      `Invalid value "${value}" for ${question.flag}. Expected one of: ${allowed}`
+    );
+  }
+  return choice.value;
+}
+
+/**
+ * Checks a value against the question's validator
+ * Throws if the value is not an acceptable answer
+ */
+function checkAnswer<T extends InitialReturnValue>(
+  question: Question<T>,
+  value: T
+): T {
+  const result = question.validate?.(value) ?? true;
+  if (result !== true) {
+    throw new Error(
+      `Invalid value "${value}" for ${question.flag}${
+        typeof result === "string" ? `: ${result}` : ""
+      }`
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Resolves the answer to a question from its CLI flag, its default (with --yes)
+ * or an interactive prompt, in that order
+ * Questions with choices take the raw flag value (e.g. a string from
+ * commander) and narrow it to the chosen value
+ */
+export async function ask<T extends InitialReturnValue>(
+  question: Question<T> & { choices: Array<Choice<T>> },
+  value: unknown,
+  options?: AskOptions
+): Promise<T>;
+export async function ask<T extends InitialReturnValue>(
+  question: Question<T>,
+  value: T | undefined,
+  options?: AskOptions
+): Promise<T>;
+export async function ask<T extends InitialReturnValue>(
+  question: Question<T>,
+  value: unknown,
+  options: AskOptions = {}
+): Promise<T> {
+  if (value !== undefined) {
+    // Without choices, the second overload only accepts values of type T
+    return checkAnswer(
+      question,
+      question.choices
+        ? checkChoice(question, question.choices, value)
+        : (value as T)
+    );
+  }
+
+  if (options.yes && question.initial !== undefined) {
+    return question.initial;
+  }
+
+  if (!isInteractive()) {
+    throw new MissingAnswerError(question.message, question.flag);
+  }
+
+  const initialIndex = question.choices?.findIndex(
+    (choice) => choice.value === question.initial
+  );
+
+  const prompt: PromptObject<"answer"> = {
+    name: "answer",
+    type: question.type,
+    message: question.message,
+    initial:
+      question.type === "select"
+        ? Math.max(initialIndex ?? 0, 0)
+        : question.initial,
+    choices: question.choices,
+    validate: question.validate,
+  };
+  const { answer } = await prompts(prompt, {
+    onCancel: () => {
+      throw new PromptCancelledError();
+    },
+  });
+
+  if (answer === undefined) {
+    throw new PromptCancelledError();
+  }
+
+  return answer as T;
+}
@@ -0,0 +1,219 @@
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  DEFAULT_REGISTRY,
+  GITHUB_API_URL,
+  GITHUB_RAW_URL,
+} from "./config.js";
+
+export interface RegistryEntry {
+  type: "file" | "dir";
+  name: string;
+  // Path of the entry relative to the registry root
+  path: string;
+}
+
+/**
+ * A source of design system files (the GitHub repository, a mirror, or a local checkout)
+ * Paths are relative to the root of the design system repository
+ */
+export interface Registry {
+  // Human readable description of where files come from
+  source: string;
+  readText(filePath: string, ref: string): Promise<string>;
+  readBinary(filePath: string, ref: string): Promise<Buffer>;
+  listDirectory(dirPath: string, ref: string): Promise<RegistryEntry[]>;
+}
+
+/**
+ * Joins path segments into a URL path without duplicate or leading slashes
+ */
+function joinUrlPath(...segments: string[]): string {
+  return segments
+    .flatMap((segment) => segment.split("/"))
+    .filter(Boolean)
+    .join("/");
+}
+
+/**
+ * Fetches a URL and throws a descriptive error for non-2xx responses
+ */
+async function fetchOk(url: string, description: string): Promise<Response> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${description}: ${response.status}`);
+  }
+  return response;
+}
+
+/**
+ * Reads files over HTTP from `<baseUrl>/<ref>/<path>`
+ * Directories are listed from an `index.json` file in the directory, containing
+ * an array of `{ "type": "file" | "dir", "name": string }` entries
+ */
+export function createHttpRegistry(baseUrl: string): Registry {
+  const base = baseUrl.replace(/\/+$/, "");
+  const url = (filePath: string, ref: string) =>
+    `${base}/${joinUrlPath(ref, filePath)}`;
+
+  return {
+    source: base,
+    async readText(filePath, ref) {
+      return (await fetchOk(url(filePath, ref), filePath)).text();
+    },
+    async readBinary(filePath, ref) {
+      const response = await fetchOk(url(filePath, ref), filePath);
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async listDirectory(dirPath, ref) {
+      const response = await fetchOk(
+        url(joinUrlPath(dirPath, "index.json"), ref),
+        `directory index for ${dirPath}`
+      );
+      const entries = (await response.json()) as Array<{
+        type: "file" | "dir";
+        name: string;
+      }>;
+      return entries.map((entry) => ({
+        type: entry.type,
+        name: entry.name,
+        path: joinUrlPath(dirPath, entry.name),
+      }));
+    },
+  };
+}
+
+/**
+ * Reads files from a GitHub repository through raw.githubusercontent.com,
+ * listing directories with the GitHub contents API
+ * @param repository - The repository as `owner/name`
+ */
+export function createGitHubRegistry(repository: string): Registry {
+  const raw = createHttpRegistry(`${GITHUB_RAW_URL}/${repository}`);
+
+  return {
+    ...raw,
+    source: `github:${repository}`,
+    async listDirectory(dirPath, ref) {
+      const response = await fetchOk(
+        `${GITHUB_API_URL}/${repository}/contents/${joinUrlPath(
+          dirPath
+        )}?ref=${encodeURIComponent(ref)}`,
+        `directory contents: ${dirPath}`
+      );
+      const entries = (await response.json()) as Array<{
+        type: string;
+        name: string;
+        path: string;
+      }>;
+      return entries
+        .filter((entry) => entry.type === "file" || entry.type === "dir")
+        .map((entry) => ({
+          type: entry.type as "file" | "dir",
+          name: entry.name,
+          path: entry.path,
+        }));
+    },
+  };
+}
+
+/**
+ * Reads files from a local checkout of the design system repository
+ * Refs are ignored: files are read from whatever is checked out
+ */
+export function createFileRegistry(directory: string): Registry {
+  const resolve = (filePath: string) =>
+    path.join(directory, ...joinUrlPath(filePath).split("/"));
+
+  return {
+    source: `file://${directory}`,
+    async readText(filePath) {
+      return readFile(resolve(filePath), "utf8");
+    },
+    async readBinary(filePath) {
+      return readFile(resolve(filePath));
+    },
+    async listDirectory(dirPath) {
+      const entries = await readdir(resolve(dirPath), { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isFile() || entry.isDirectory())
+        .map((entry) => ({
+          type: entry.isDirectory() ? ("dir" as const) : ("file" as const),
+          name: entry.name,
+          path: joinUrlPath(dirPath, entry.name),
+        }));
+    },
+  };
+}
+
+/**
+ * Gets the directory of a `file://` or plain directory registry source, which
+ * may be relative
+ */
+function getRegistryDirectory(source: string): string {
+  if (!source.startsWith("file://")) {
+    return source;
+  }
+  return source.startsWith("file:///")
+    ? fileURLToPath(source)
+    : source.slice("file://".length);
+}
+
+/**
+ * Gets how to record a registry source given on the command line in bog.json
+ * Relative directories are given relative to the current directory but read
+ * from bog.json relative to the project root, so they are rewritten relative
+ * to the root (or made absolute when that is not possible, e.g. on another
+ * drive). Other sources are returned unchanged
+ */
+export function toProjectRegistrySource(
+  source: string,
+  root: string,
+  cwd: string = process.cwd()
+): string {
+  const directory = getRegistryDirectory(source);
+  if (
+    source.startsWith("github:") ||
+    /^https?:\/\//.test(source) ||
+    path.isAbsolute(directory)
+  ) {
+    return source;
+  }
+
+  const absolute = path.resolve(cwd, directory);
+  const relative = path.relative(path.resolve(root), absolute);
+  if (path.isAbsolute(relative)) {
+    return absolute;
+  }
+  const posix = relative.split(path.sep).join("/");
+  return posix.startsWith("..") ? posix : `./${posix}`;
+}
+
+/**
+ * Creates a registry from a source string:
+ * - `github:<owner>/<name>` for a GitHub repository (or fork)
+ * - `http://...` or `https://...` for any HTTP mirror
+ * - `file://<path>`, or a plain directory path, for a local checkout
+ * Relative directory paths are resolved against `root`
+ */
+export function createRegistry(
+  source: string = DEFAULT_REGISTRY,
+  root: string = process.cwd()
+): Registry {
+  if (source.startsWith("github:")) {
+    return createGitHubRegistry(source.slice("github:".length));
+  }
+
+  if (/^https?:\/\//.test(source)) {
+    return createHttpRegistry(source);
+  }
+
+  const directory = path.resolve(root, getRegistryDirectory(source));
+  if (!existsSync(directory)) {
+    throw new Error(`Registry directory not found: ${directory}`);
+  }
+
+  return createFileRegistry(directory);
+}
@@ -1,4 +1,5 @@
 import { execSync } from "child_process";
+import { createHash } from "crypto";
 
 // ANSI color codes
 const COLORS = {
@@ -17,6 +18,14 @@ export const logInfo = (message: string): void => {
   console.log(message);
 };
 
+/**
+ * Logs an informational message to stderr, so it never mixes with output
+ * meant for other programs (e.g. --json)
+ */
+export const logNotice = (message: string): void => {
+  console.error(message);
+};
+
 /**
  * Logs an error message to the console with colored ERROR prefix
  */
@@ -65,3 +74,64 @@ export function findGitRoot(startPath: string = process.cwd()): string | null {
     return null;
   }
 }
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+/**
+ * Finds the closest candidate to a (probably misspelled) input
+ * @returns The closest candidate, or null if none is reasonably close
+ */
+export function suggestClosest(
+  input: string,
+  candidates: string[]
+): string | null {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(input, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  // Only suggest candidates within a third of the input's length
+  return bestDistance <= Math.max(2, Math.floor(input.length / 3))
+    ? best
+    : null;
+}
+
+/**
+ * Computes the sha256 hash of file contents
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Returns true for plain JSON objects (not arrays or null)
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
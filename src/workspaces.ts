@@ -0,0 +1,196 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+
+// Directories never searched for workspace packages
+const IGNORED_DIRECTORIES = ["node_modules", ".git"];
+
+/**
+ * Reads the workspace patterns a directory declares, from the `workspaces`
+ * field in package.json (npm, yarn and bun) or from pnpm-workspace.yaml
+ * @returns The patterns, or null if the directory is not a workspace root
+ */
+function readWorkspacePatterns(directory: string): string[] | null {
+  const pnpmWorkspacePath = path.join(directory, "pnpm-workspace.yaml");
+  if (existsSync(pnpmWorkspacePath)) {
+    return parsePnpmWorkspacePackages(readFileSync(pnpmWorkspacePath, "utf8"));
+  }
+
+  const packageJsonPath = path.join(directory, "package.json");
+  if (!existsSync(packageJsonPath)) {
+    return null;
+  }
+
+  try {
+    const { workspaces } = JSON.parse(readFileSync(packageJsonPath, "utf8"));
+    // Yarn also accepts { packages: [...] }
+    const patterns = Array.isArray(workspaces)
+      ? workspaces
+      : workspaces?.packages;
+    return Array.isArray(patterns)
+      ? patterns.filter((pattern): pattern is string => typeof pattern === "string")
+      : null;
+  } catch {
+    // Invalid package.json
+    return null;
+  }
+}
+
+/**
+ * Reads the `packages` list of a pnpm-workspace.yaml file
+ * Only the block list form pnpm documents is supported, e.g.
+ * packages:
+ *   - "apps/*"
+ */
+function parsePnpmWorkspacePackages(yaml: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of yaml.split(/\r?\n/)) {
+    const content = line.replace(/\s+#.*$/, "");
+    if (!content.trim() || content.trim().startsWith("#")) continue;
+
+    if (/^\S/.test(content)) {
+      inPackages = /^packages\s*:\s*$/.test(content);
+      continue;
+    }
+
+    const item = content.match(/^\s+-\s*(.+?)\s*$/);
+    if (inPackages && item) {
+      patterns.push(item[1]!.replace(/^(["'])(.*)\1$/, "$2"));
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Lists the subdirectories of a directory that can contain workspace packages
+ */
+function listSubdirectories(directory: string): string[] {
+  try {
+    return readdirSync(directory, { withFileTypes: true })
+      .filter(
+        (entry) =>
+          entry.isDirectory() && !IGNORED_DIRECTORIES.includes(entry.name)
+      )
+      .map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Expands a workspace pattern into the directories it matches
+ * Supports `*` within a path segment and `**` for any number of segments,
+ * which covers the patterns npm, yarn and pnpm workspaces use
+ */
+function expandPattern(directory: string, segments: string[]): string[] {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    return [directory];
+  }
+
+  if (segment === "**") {
+    return [
+      ...expandPattern(directory, rest),
+      ...listSubdirectories(directory).flatMap((name) =>
+        expandPattern(path.join(directory, name), segments)
+      ),
+    ];
+  }
+
+  if (segment.includes("*")) {
+    const matcher = new RegExp(
+      `^${segment
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^/]*")}$`
+    );
+    return listSubdirectories(directory)
+      .filter((name) => matcher.test(name))
+      .flatMap((name) => expandPattern(path.join(directory, name), rest));
+  }
+
+  const next = path.join(directory, segment);
+  return existsSync(next) ? expandPattern(next, rest) : [];
+}
+
+/**
+ * Finds the root of the npm, yarn, pnpm or bun workspace a directory belongs
+ * to, by walking up to the nearest directory that declares workspaces
+ * @returns The absolute path of the workspace root, or null if there is none
+ */
+export function findWorkspaceRoot(start: string = process.cwd()): string | null {
+  let directory = path.resolve(start);
+
+  while (true) {
+    if (readWorkspacePatterns(directory)) {
+      return directory;
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Lists the packages of a workspace (directories with a package.json matched
+ * by its patterns), excluding the workspace root itself
+ * Patterns starting with `!` exclude the directories they match
+ * @returns Absolute paths of the packages, sorted
+ */
+export function listWorkspacePackages(workspaceRoot: string): string[] {
+  const patterns = readWorkspacePatterns(workspaceRoot) ?? [];
+  const expand = (pattern: string) =>
+    expandPattern(
+      workspaceRoot,
+      pattern
+        .replace(/^\.\//, "")
+        .split("/")
+        .filter((segment) => segment && segment !== ".")
+    );
+
+  const excluded = new Set(
+    patterns
+      .filter((pattern) => pattern.startsWith("!"))
+      .flatMap((pattern) => expand(pattern.slice(1)))
+  );
+  const packages = new Set(
+    patterns
+      .filter((pattern) => !pattern.startsWith("!"))
+      .flatMap(expand)
+      .filter(
+        (directory) =>
+          !excluded.has(directory) &&
+          directory !== workspaceRoot &&
+          existsSync(path.join(directory, "package.json"))
+      )
+  );
+
+  return [...packages].sort();
+}
+
+/**
+ * Finds the workspace package a directory is in (the package itself, or a
+ * directory inside it)
+ * @returns The absolute path of the package and the workspace root, or null
+ * if the directory is not inside a workspace package
+ */
+export function findWorkspacePackage(
+  start: string = process.cwd()
+): { packageRoot: string; workspaceRoot: string } | null {
+  const workspaceRoot = findWorkspaceRoot(start);
+  if (!workspaceRoot) {
+    return null;
+  }
+
+  const directory = path.resolve(start);
+  const packageRoot = listWorkspacePackages(workspaceRoot).find(
+    (packageDir) =>
+      directory === packageDir || directory.startsWith(`${packageDir}${path.sep}`)
+  );
+  return packageRoot ? { packageRoot, workspaceRoot } : null;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { CONFIG_SCHEMA_URL, CONFIG_VERSION } from "../src/config.js";
+import {
+  getConfigVersion,
+  migrateBogConfig,
+} from "../src/config-migrations.js";
+
+const DESIGN_SYSTEM = { path: "src/components", components: {} };
+
+describe("getConfigVersion", () => {
+  it("treats files without a version as version 0", () => {
+    expect(getConfigVersion({ "design-system": DESIGN_SYSTEM })).toBe(0);
+    expect(getConfigVersion({ version: 1 })).toBe(1);
+  });
+});
+
+describe("migrateBogConfig", () => {
+  it("upgrades an unversioned config to the current version", () => {
+    const { config, applied } = migrateBogConfig({
+      "design-system": DESIGN_SYSTEM,
+    });
+
+    expect(config).toEqual({
+      $schema: CONFIG_SCHEMA_URL,
+      version: CONFIG_VERSION,
+      "design-system": DESIGN_SYSTEM,
+    });
+    expect(applied).toEqual(["v1: Add the $schema and version fields"]);
+  });
+
+  it("puts $schema and version first", () => {
+    const { config } = migrateBogConfig({ "design-system": DESIGN_SYSTEM });
+    expect(Object.keys(config).slice(0, 2)).toEqual(["$schema", "version"]);
+  });
+
+  it("leaves current configs unchanged", () => {
+    const current = {
+      $schema: CONFIG_SCHEMA_URL,
+      version: CONFIG_VERSION,
+      "design-system": DESIGN_SYSTEM,
+    };
+
+    expect(migrateBogConfig(current)).toEqual({ config: current, applied: [] });
+  });
+
+  it("leaves an invalid version for validation to report", () => {
+    const config = { version: "1", "design-system": DESIGN_SYSTEM };
+    expect(migrateBogConfig(config)).toEqual({ config, applied: [] });
+  });
+
+  it("rejects configs written by a newer CLI", () => {
+    expect(() => migrateBogConfig({ version: CONFIG_VERSION + 1 })).toThrow(
+      /Please update bog-cli/
+    );
+  });
+});
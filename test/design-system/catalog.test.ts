@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { isContainedPath } from "../../src/design-system/catalog.js";
+
+describe("isContainedPath", () => {
+  it("accepts names and paths inside the directory", () => {
+    for (const name of [
+      "BogButton",
+      "BogButton.tsx",
+      "parts/Icon.tsx",
+      "..a.tsx",
+    ]) {
+      expect(isContainedPath(name)).toBe(true);
+    }
+  });
+
+  it("rejects paths that leave the directory", () => {
+    for (const name of ["../x", "a/../../x", "..", "a\\..\\..\\x"]) {
+      expect(isContainedPath(name)).toBe(false);
+    }
+  });
+
+  it("rejects absolute paths and the directory itself", () => {
+    for (const name of [
+      "/etc/passwd",
+      "C:\\Windows",
+      "\\\\server\\share",
+      "",
+      ".",
+    ]) {
+      expect(isContainedPath(name)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  contrastRatio,
+  deriveShade,
+  hexToOklch,
+  lightenForContrast,
+  oklchToHex,
+  withLightness,
+} from "../../src/design-system/colors.js";
+
+describe("hexToOklch / oklchToHex", () => {
+  it("round-trips sRGB colors", () => {
+    for (const hex of ["#000000", "#ffffff", "#ff0000", "#3a7bd5", "#c4a35a"]) {
+      expect(oklchToHex(hexToOklch(hex))).toBe(hex);
+    }
+  });
+
+  it("maps black and white to the ends of the lightness range", () => {
+    expect(hexToOklch("#000000").l).toBeCloseTo(0, 5);
+    expect(hexToOklch("#ffffff").l).toBeCloseTo(1, 5);
+  });
+
+  it("reduces the chroma of colors outside sRGB", () => {
+    expect(oklchToHex({ l: 0.9, c: 0.4, h: 140 })).toMatch(/^#[0-9a-f]{6}$/);
+  });
+});
+
+describe("deriveShade", () => {
+  it("returns the base color for the reference itself", () => {
+    expect(deriveShade("#3a7bd5", "#3a7bd5", "#c4a35a")).toBe("#c4a35a");
+  });
+
+  it("keeps lighter shades lighter and darker shades darker", () => {
+    const base = "#c4a35a";
+    const light = deriveShade("#9dc0f0", "#3a7bd5", base);
+    const dark = deriveShade("#1d3e6b", "#3a7bd5", base);
+
+    expect(hexToOklch(light).l).toBeGreaterThan(hexToOklch(base).l);
+    expect(hexToOklch(dark).l).toBeLessThan(hexToOklch(base).l);
+  });
+
+  it("keeps white and black shades", () => {
+    expect(deriveShade("#ffffff", "#3a7bd5", "#c4a35a")).toBe("#ffffff");
+    expect(deriveShade("#000000", "#3a7bd5", "#c4a35a")).toBe("#000000");
+  });
+});
+
+describe("contrastRatio", () => {
+  it("is 21 for black on white and 1 for identical colors", () => {
+    expect(contrastRatio("#000000", "#ffffff")).toBeCloseTo(21, 5);
+    expect(contrastRatio("#3a7bd5", "#3a7bd5")).toBeCloseTo(1, 5);
+  });
+
+  it("does not depend on the order of the colors", () => {
+    expect(contrastRatio("#3a7bd5", "#ffffff")).toBeCloseTo(
+      contrastRatio("#ffffff", "#3a7bd5"),
+      10
+    );
+  });
+
+  it("matches the WCAG value for a known pair", () => {
+    // #767676 is the lightest gray with 4.5:1 contrast on white
+    expect(contrastRatio("#767676", "#ffffff")).toBeCloseTo(4.54, 2);
+  });
+});
+
+describe("withLightness / lightenForContrast", () => {
+  it("sets the lightness of a color", () => {
+    expect(hexToOklch(withLightness("#3a7bd5", 0.8)).l).toBeCloseTo(0.8, 2);
+  });
+
+  it("lightens a color until it has enough contrast", () => {
+    const color = lightenForContrast("#1d3e6b", "#000000", 4.5);
+    expect(contrastRatio(color, "#000000")).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it("leaves colors with enough contrast unchanged", () => {
+    expect(lightenForContrast("#ffffff", "#000000", 4.5)).toBe("#ffffff");
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import { createChangeSet } from "../../src/file-changes.js";
+import { hashContent } from "../../src/utils.js";
+import { updateModifiedFile } from "../../src/design-system/components.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+vi.spyOn(console, "warn").mockImplementation(() => {});
+
+const BASE = "line 1\nline 2\nline 3";
+const FILE = "components/BogButton/BogButton.tsx";
+
+/**
+ * Creates a change set whose copy of FILE has local changes
+ */
+function withLocalFile(local: string) {
+  const changes = createChangeSet("/project");
+  changes.write(FILE, local);
+  return changes;
+}
+
+describe("updateModifiedFile", () => {
+  it("merges local changes into the new upstream version", async () => {
+    const changes = withLocalFile("line 1\nline 2 (local)\nline 3");
+    const fetchBase = vi.fn(async () => BASE);
+
+    const result = await updateModifiedFile(
+      changes,
+      FILE,
+      "line 1\nline 2\nline 3\nline 4",
+      "merge",
+      { ref: "v1.0.0", hash: hashContent(BASE) },
+      fetchBase,
+      "button"
+    );
+
+    expect(fetchBase).toHaveBeenCalledWith("v1.0.0");
+    expect(result).toBe("line 1\nline 2 (local)\nline 3\nline 4");
+    expect(changes.exists(`${FILE}.orig`)).toBe(false);
+  });
+
+  it("leaves conflict markers when both sides change the same line", async () => {
+    const changes = withLocalFile("line 1\nline 2 (local)\nline 3");
+
+    const result = await updateModifiedFile(
+      changes,
+      FILE,
+      "line 1\nline 2 (upstream)\nline 3",
+      "merge",
+      { ref: "v1.0.0", hash: hashContent(BASE) },
+      async () => BASE,
+      "button"
+    );
+
+    expect(result).toContain("<<<<<<< local");
+    expect(result).toContain("line 2 (local)");
+    expect(result).toContain("line 2 (upstream)");
+    expect(result).toContain(">>>>>>> upstream");
+  });
+
+  it("falls back to the installed version's release tag", async () => {
+    const fetchBase = vi.fn(async () => BASE);
+
+    await updateModifiedFile(
+      withLocalFile(BASE),
+      FILE,
+      BASE,
+      "merge",
+      { version: "1.2.0", hash: hashContent(BASE) },
+      fetchBase,
+      "button"
+    );
+
+    expect(fetchBase).toHaveBeenCalledWith("v1.2.0");
+  });
+
+  it("keeps a backup when the base does not match the installed hash", async () => {
+    const local = "line 1\nline 2 (local)\nline 3";
+    const changes = withLocalFile(local);
+
+    const result = await updateModifiedFile(
+      changes,
+      FILE,
+      "upstream",
+      "merge",
+      { ref: "main", hash: hashContent(BASE) },
+      async () => "main has moved on",
+      "button"
+    );
+
+    expect(result).toBe("upstream");
+    expect(changes.readText(`${FILE}.orig`)).toBe(local);
+  });
+
+  it("keeps a backup when the base cannot be downloaded", async () => {
+    const changes = withLocalFile("local");
+
+    const result = await updateModifiedFile(
+      changes,
+      FILE,
+      "upstream",
+      "merge",
+      { ref: "v1.0.0", hash: hashContent(BASE) },
+      async () => {
+        throw new Error("not found");
+      },
+      "button"
+    );
+
+    expect(result).toBe("upstream");
+    expect(changes.readText(`${FILE}.orig`)).toBe("local");
+  });
+
+  it("keeps a backup without downloading anything for the backup strategy", async () => {
+    const changes = withLocalFile("local");
+    const fetchBase = vi.fn(async () => BASE);
+
+    const result = await updateModifiedFile(
+      changes,
+      FILE,
+      "upstream",
+      "backup",
+      { ref: "v1.0.0", hash: hashContent(BASE) },
+      fetchBase,
+      "button"
+    );
+
+    expect(fetchBase).not.toHaveBeenCalled();
+    expect(result).toBe("upstream");
+    expect(changes.readText(`${FILE}.orig`)).toBe("local");
+  });
+});
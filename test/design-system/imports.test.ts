@@ -0,0 +1,206 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  addImport,
+  hasImport,
+  ImportLocations,
+  resolveImportLocations,
+  rewriteImports,
+  suggestImportAlias,
+} from "../../src/design-system/imports.js";
+
+const UPSTREAM_FILE = "src/components/BogButton/BogButton.tsx";
+const SOURCE = [
+  'import React from "react";',
+  'import { cn } from "@/utils/design-system/cn";',
+  'import { BogIcon } from "../BogIcon/BogIcon";',
+  "import styles from './styles.module.css';",
+].join("\n");
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(path.join(os.tmpdir(), "bog-imports-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+/**
+ * Writes the project's tsconfig.json
+ */
+function writeTsconfig(contents: string) {
+  writeFileSync(path.join(root, "tsconfig.json"), contents);
+}
+
+describe("rewriteImports", () => {
+  const locations: ImportLocations = {
+    componentsPath: "app/ui",
+    utilsPath: "lib/ds",
+    upstreamAlias: false,
+  };
+
+  it("points utils and component imports at the project's locations", () => {
+    const result = rewriteImports(
+      SOURCE,
+      UPSTREAM_FILE,
+      "app/ui/BogButton/BogButton.tsx",
+      locations
+    );
+
+    expect(result).toContain('import React from "react";');
+    expect(result).toContain('import { cn } from "../../../lib/ds/cn";');
+    expect(result).toContain('import { BogIcon } from "../BogIcon/BogIcon";');
+    expect(result).toContain("import styles from './styles.module.css';");
+  });
+
+  it("uses the utils alias when there is one", () => {
+    const result = rewriteImports(
+      SOURCE,
+      UPSTREAM_FILE,
+      "app/ui/BogButton/BogButton.tsx",
+      { ...locations, utilsAlias: "~/ds" }
+    );
+
+    expect(result).toContain('import { cn } from "~/ds/cn";');
+  });
+
+  it("keeps @/ imports when the project maps @/ to src/ like upstream", () => {
+    const result = rewriteImports(SOURCE, UPSTREAM_FILE, UPSTREAM_FILE, {
+      componentsPath: "src/components",
+      utilsPath: "src/utils/design-system",
+      upstreamAlias: true,
+    });
+
+    expect(result).toBe(SOURCE);
+  });
+
+  it("makes @/ imports relative when the project has no @/ alias", () => {
+    const result = rewriteImports(SOURCE, UPSTREAM_FILE, UPSTREAM_FILE, {
+      componentsPath: "src/components",
+      utilsPath: "src/utils/design-system",
+      upstreamAlias: false,
+    });
+
+    expect(result).toContain(
+      'import { cn } from "../../utils/design-system/cn";'
+    );
+  });
+
+  it("leaves files that are not scripts unchanged", () => {
+    const css = '@import "@/utils/design-system/theme.css";';
+    expect(
+      rewriteImports(
+        css,
+        "src/components/BogButton/styles.module.css",
+        "app/ui/BogButton/styles.module.css",
+        locations
+      )
+    ).toBe(css);
+  });
+});
+
+describe("addImport", () => {
+  it("adds a relative import after the existing imports", () => {
+    const source =
+      "import React from 'react'\n\nexport default function App() {}\n";
+
+    expect(
+      addImport(root, source, "src/app/layout.tsx", "src/styles/globals.css")
+    ).toBe(
+      "import React from 'react'\nimport '../styles/globals.css'\n\nexport default function App() {}\n"
+    );
+  });
+
+  it("adds the import after directives when there are no imports", () => {
+    const source = '"use client";\n\nexport default function App() {}\n';
+
+    expect(addImport(root, source, "src/main.tsx", "src/index.css")).toBe(
+      '"use client";\nimport "./index.css";\n\nexport default function App() {}\n'
+    );
+  });
+
+  it("imports through an alias the file already uses", () => {
+    writeTsconfig('{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }');
+    const source = 'import { cn } from "@/lib/cn";\n';
+
+    expect(
+      addImport(root, source, "src/app/layout.tsx", "src/styles/globals.css")
+    ).toBe('import { cn } from "@/lib/cn";\nimport "@/styles/globals.css";\n');
+  });
+
+  it("returns null for files that cannot be parsed", () => {
+    expect(addImport(root, "import {", "src/main.tsx", "src/index.css")).toBe(
+      null
+    );
+  });
+});
+
+describe("hasImport", () => {
+  it("recognizes relative and aliased imports of the same file", () => {
+    writeTsconfig('{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }');
+
+    for (const specifier of [
+      "../styles/globals.css",
+      "@/styles/globals.css",
+    ]) {
+      expect(
+        hasImport(
+          root,
+          `import "${specifier}";`,
+          "src/app/layout.tsx",
+          "src/styles/globals.css"
+        )
+      ).toBe(true);
+    }
+    expect(
+      hasImport(
+        root,
+        'import "./other.css";',
+        "src/app/layout.tsx",
+        "src/styles/globals.css"
+      )
+    ).toBe(false);
+  });
+});
+
+describe("tsconfig.json paths", () => {
+  it("reads tsconfig.json with comments and trailing commas", () => {
+    writeTsconfig(`{
+  // Generated by Next.js
+  "compilerOptions": {
+    "paths": { "@/*": ["./src/*"], },
+  },
+}`);
+
+    expect(suggestImportAlias(root, "src/utils")).toBe("@/utils");
+    expect(resolveImportLocations(root, "src/components").upstreamAlias).toBe(
+      true
+    );
+  });
+
+  it("follows extends, resolving paths against the config that sets them", () => {
+    writeFileSync(
+      path.join(root, "tsconfig.base.json"),
+      '{ "compilerOptions": { "baseUrl": "src", "paths": { "~/*": ["./*"] } } }'
+    );
+    writeTsconfig('{ "extends": "./tsconfig.base" }');
+
+    expect(suggestImportAlias(root, "src/utils")).toBe("~/utils");
+  });
+
+  it("ignores targets that are not strings", () => {
+    writeTsconfig(
+      '{ "compilerOptions": { "paths": { "@/*": [42, null, "./src/*"], "x/*": "src/*" } } }'
+    );
+
+    expect(suggestImportAlias(root, "src/utils")).toBe("@/utils");
+  });
+
+  it("suggests nothing without a tsconfig.json", () => {
+    expect(suggestImportAlias(root, "src/utils")).toBeUndefined();
+  });
+});
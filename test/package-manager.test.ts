@@ -0,0 +1,80 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { detectPackageManager } from "../src/package-manager.js";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(path.join(os.tmpdir(), "bog-pm-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+/**
+ * Writes a file in the temporary project, creating its directory
+ */
+function write(file: string, contents: string = "") {
+  mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+  writeFileSync(path.join(root, file), contents);
+}
+
+describe("detectPackageManager", () => {
+  it("detects the package manager from its lockfile", () => {
+    const lockfiles = [
+      ["pnpm-lock.yaml", "pnpm"],
+      ["yarn.lock", "yarn"],
+      ["bun.lock", "bun"],
+      ["package-lock.json", "npm"],
+    ] as const;
+
+    for (const [lockfile, packageManager] of lockfiles) {
+      const project = path.join(root, packageManager);
+      write(path.join(packageManager, lockfile));
+
+      expect(detectPackageManager(project)).toEqual({
+        packageManager,
+        source: lockfile,
+      });
+    }
+  });
+
+  it("prefers the packageManager field of package.json", () => {
+    write("package.json", JSON.stringify({ packageManager: "pnpm@10.4.1" }));
+    write("package-lock.json");
+
+    expect(detectPackageManager(root)).toEqual({
+      packageManager: "pnpm",
+      source: "the packageManager field in package.json",
+    });
+  });
+
+  it("falls back to lockfiles when package.json is invalid", () => {
+    write("package.json", "{");
+    write("yarn.lock");
+
+    expect(detectPackageManager(root)?.packageManager).toBe("yarn");
+  });
+
+  it("checks the workspace root for workspace packages", () => {
+    write(
+      "package.json",
+      JSON.stringify({ private: true, workspaces: ["apps/*"] })
+    );
+    write("yarn.lock");
+    write("apps/web/package.json", JSON.stringify({ name: "web" }));
+
+    expect(detectPackageManager(path.join(root, "apps/web"))).toEqual({
+      packageManager: "yarn",
+      source: "yarn.lock in the workspace root",
+    });
+  });
+
+  it("returns null when nothing identifies the package manager", () => {
+    write("package.json", JSON.stringify({ name: "app" }));
+    expect(detectPackageManager(root)).toBeNull();
+  });
+});